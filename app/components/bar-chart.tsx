@@ -0,0 +1,77 @@
+export type Bar = {
+  label: string;
+  value: number;
+  title?: string; // Hover text, defaults to "label: value"
+};
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const LABEL_HEIGHT = 16;
+const VALUE_HEIGHT = 14;
+
+// A plain SVG bar chart. Scales to its container's width; labels are drawn
+// under every bar, so keep them short and the bar count modest.
+export default function BarChart({
+  bars,
+  color = "#f59e0b",
+}: {
+  bars: Bar[];
+  color?: string;
+}) {
+  const max = Math.max(1, ...bars.map((bar) => bar.value));
+  const slot = WIDTH / Math.max(1, bars.length);
+  const barWidth = slot * 0.7;
+  const plotHeight = HEIGHT - LABEL_HEIGHT - VALUE_HEIGHT;
+
+  return (
+    <svg
+      className="bar-chart"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role="img"
+    >
+      <line
+        x1={0}
+        x2={WIDTH}
+        y1={HEIGHT - LABEL_HEIGHT}
+        y2={HEIGHT - LABEL_HEIGHT}
+        stroke="#e5e7eb"
+      />
+      {bars.map((bar, i) => {
+        const height = (bar.value / max) * plotHeight;
+        const x = i * slot + (slot - barWidth) / 2;
+        const y = HEIGHT - LABEL_HEIGHT - height;
+        return (
+          <g key={i}>
+            <title>{bar.title ?? `${bar.label}: ${bar.value}`}</title>
+            <rect
+              x={x}
+              y={y}
+              width={barWidth}
+              height={height}
+              rx={2}
+              fill={color}
+            />
+            {bar.value > 0 && (
+              <text
+                x={x + barWidth / 2}
+                y={y - 3}
+                textAnchor="middle"
+                className="bar-chart-value"
+              >
+                {bar.value}
+              </text>
+            )}
+            <text
+              x={x + barWidth / 2}
+              y={HEIGHT - 4}
+              textAnchor="middle"
+              className="bar-chart-label"
+            >
+              {bar.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
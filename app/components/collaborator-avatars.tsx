@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import type { Awareness } from "y-protocols/awareness";
+import type { CollaboratorUser } from "~/utils/collaboration.client";
+
+// Everyone with a document open, from the Yjs awareness states. A person with
+// several tabs or devices open is shown once.
+function getCollaborators(awareness: Awareness): CollaboratorUser[] {
+  const byName = new Map<string, CollaboratorUser>();
+  awareness.getStates().forEach((state) => {
+    const user = state.user as CollaboratorUser | undefined;
+    if (user?.name && !byName.has(user.name)) {
+      byName.set(user.name, user);
+    }
+  });
+  return Array.from(byName.values()).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+// Avatars for the people currently in this document, in their cursor colors
+export default function CollaboratorAvatars({
+  awareness,
+}: {
+  awareness: Awareness | null;
+}) {
+  const [collaborators, setCollaborators] = useState<CollaboratorUser[]>([]);
+
+  useEffect(() => {
+    if (!awareness) return;
+
+    const update = () => setCollaborators(getCollaborators(awareness));
+    update();
+    awareness.on("change", update);
+    return () => {
+      awareness.off("change", update);
+    };
+  }, [awareness]);
+
+  if (collaborators.length === 0) {
+    return (
+      <>
+        <span
+          className="online-dot"
+          style={{ opacity: 0.5, flexShrink: 0 }}
+        ></span>
+        <span style={{ whiteSpace: "nowrap" }}>Connecting...</span>
+      </>
+    );
+  }
+
+  return (
+    <span
+      className="collaborator-avatars"
+      title={collaborators.map((user) => user.name).join(", ")}
+    >
+      {collaborators.map((user) => (
+        <span
+          key={user.name}
+          className="collaborator-avatar"
+          style={{ background: user.color }}
+        >
+          {user.name.charAt(0).toUpperCase()}
+        </span>
+      ))}
+      <span style={{ whiteSpace: "nowrap" }}>{collaborators.length} here</span>
+    </span>
+  );
+}
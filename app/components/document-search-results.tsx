@@ -0,0 +1,101 @@
+import { useNavigate } from "@remix-run/react";
+import { getApiUrl } from "~/utils/api.client";
+import { useEffect, useState } from "react";
+import type { MatchRange, SearchResult } from "~/../../party/search-index";
+
+// Wait for a pause in typing before hitting the server
+const SEARCH_DEBOUNCE_MS = 200;
+
+// Wrap the matched ranges of the text in <mark>
+function Highlighted({ text, ranges }: { text: string; ranges: MatchRange[] }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start < cursor) return;
+    parts.push(text.slice(cursor, start));
+    parts.push(<mark key={i}>{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
+
+// Ranked search results for the docs list, covering archived documents too
+export default function DocumentSearchResults({ query }: { query: string }) {
+  const navigate = useNavigate();
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          getApiUrl(`/api/documents/search?q=${encodeURIComponent(query)}`),
+          { signal: controller.signal }
+        );
+
+        if (response.ok) {
+          setResults((await response.json()) as SearchResult[]);
+        }
+        setLoading(false);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to search documents:", error);
+          setLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  if (loading && results.length === 0) {
+    return <div className="loading">Searching...</div>;
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="empty-state">
+        <div className="empty-state-icon">🔍</div>
+        <div className="empty-state-text">No documents match "{query}"</div>
+      </div>
+    );
+  }
+
+  return (
+    <ul className={`search-results ${loading ? "stale" : ""}`}>
+      {results.map((result) => (
+        <li key={result.document.id}>
+          <button
+            className="search-result"
+            onClick={() => navigate(`/docs/${result.document.slug}`)}
+          >
+            <div className="search-result-title">
+              <Highlighted
+                text={result.document.title || "Untitled"}
+                ranges={result.document.title ? result.titleMatches : []}
+              />
+              {result.document.archived && (
+                <span className="search-result-badge">📦 Archived</span>
+              )}
+            </div>
+            {result.snippet && (
+              <div className="search-result-snippet">
+                <Highlighted
+                  text={result.snippet}
+                  ranges={result.snippetMatches}
+                />
+              </div>
+            )}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
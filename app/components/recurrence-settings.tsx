@@ -0,0 +1,192 @@
+import { getApiUrl } from "~/utils/api.client";
+import { useEffect, useState } from "react";
+import type { Document } from "~/../../party/documents";
+import { WEEKDAYS } from "~/../../party/recurrence";
+import type {
+  DocumentRecurrence,
+  RecurrenceSettings,
+} from "~/../../party/recurrence";
+
+const formatNextRun = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Weekly reset settings for a document: which day, and whether it clears
+// checked items or starts over from a template. Saved straight to the server.
+export default function RecurrenceSettingsPanel({
+  slug,
+  recurrence,
+  onChange,
+  onClose,
+}: {
+  slug: string;
+  recurrence: DocumentRecurrence | null;
+  onChange: (recurrence: DocumentRecurrence | null) => void;
+  onClose: () => void;
+}) {
+  const [weekday, setWeekday] = useState(recurrence?.weekday ?? 0);
+  const [reset, setReset] = useState<RecurrenceSettings["reset"]>(
+    recurrence?.reset ?? "clear-checked"
+  );
+  const [templateId, setTemplateId] = useState(recurrence?.templateId ?? "");
+  const [templates, setTemplates] = useState<Document[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await fetch(getApiUrl("/api/documents"));
+        if (response.ok) {
+          const docs = (await response.json()) as Document[];
+          setTemplates(docs.filter((doc) => doc.template));
+        }
+      } catch (error) {
+        console.error("Failed to fetch templates:", error);
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  const save = async (method: "PUT" | "DELETE") => {
+    setSaving(true);
+    setError("");
+    try {
+      const settings: RecurrenceSettings = {
+        weekday,
+        reset,
+        ...(reset === "template" && { templateId }),
+      };
+      const response = await fetch(
+        getApiUrl(`/api/documents/${encodeURIComponent(slug)}/recurrence`),
+        {
+          method,
+          headers: { "Content-Type": "application/json" },
+          ...(method === "PUT" && { body: JSON.stringify(settings) }),
+        }
+      );
+
+      const result = (await response.json()) as Document | { error: string };
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+      onChange(result.recurrence ?? null);
+      onClose();
+    } catch (error) {
+      console.error("Error saving recurrence:", error);
+      setError("Failed to save. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="version-history-overlay" onClick={onClose}>
+      <div
+        className="version-history recurrence-settings"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="version-history-header">
+          <h2>🔁 Weekly reset</h2>
+          <button className="back-button" onClick={onClose}>
+            ✕ Close
+          </button>
+        </div>
+
+        <div className="recurrence-body">
+          <p className="recurrence-help">
+            At the start of the day (Pacific time), a dated copy of this
+            document is archived and the document starts the week fresh.
+          </p>
+
+          <label className="recurrence-field">
+            <span>Every</span>
+            <select
+              value={weekday}
+              onChange={(e) => setWeekday(Number(e.target.value))}
+            >
+              {WEEKDAYS.map((day, i) => (
+                <option key={day} value={i}>
+                  {day}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="recurrence-option">
+            <input
+              type="radio"
+              checked={reset === "clear-checked"}
+              onChange={() => setReset("clear-checked")}
+            />
+            Clear checked items
+          </label>
+          <label className="recurrence-option">
+            <input
+              type="radio"
+              checked={reset === "template"}
+              onChange={() => setReset("template")}
+              disabled={templates.length === 0}
+            />
+            Start over from a template
+            {templates.length === 0 && (
+              <span className="recurrence-hint">
+                {" "}
+                (mark a document as a template first)
+              </span>
+            )}
+          </label>
+          {reset === "template" && (
+            <select
+              className="recurrence-template"
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+            >
+              <option value="" disabled>
+                Choose a template
+              </option>
+              {templates.map((doc) => (
+                <option key={doc.id} value={doc.id}>
+                  {doc.title || "Untitled"}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {recurrence && (
+            <p className="recurrence-help">
+              Next reset: {formatNextRun(recurrence.nextRunAt)}
+            </p>
+          )}
+          {error && <p className="recurrence-error">{error}</p>}
+        </div>
+
+        <div className="version-history-footer">
+          {recurrence && (
+            <button
+              className="back-button"
+              onClick={() => save("DELETE")}
+              disabled={saving}
+            >
+              Stop resetting
+            </button>
+          )}
+          <button
+            className="command-bar-button"
+            onClick={() => save("PUT")}
+            disabled={saving || (reset === "template" && !templateId)}
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
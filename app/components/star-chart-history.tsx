@@ -0,0 +1,133 @@
+import { getApiUrl } from "~/utils/api.client";
+import { useEffect, useState } from "react";
+import type {
+  StarChart,
+  StarChartEvent,
+  StarChartEventEntry,
+} from "~/../../party/star-chart";
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+function describeEvent(
+  event: StarChartEvent,
+  chart: StarChart,
+  events: StarChartEvent[]
+): string {
+  const { rules } = chart;
+  switch (event.action) {
+    case "add":
+      return `added ${plural(event.amount, "square")}`;
+    case "subtract":
+      return `removed ${plural(event.amount, "square")}`;
+    case "exchange":
+      return `traded ${plural(event.amount, "square")} for ${
+        rules.exchangeRewardName
+      }`;
+    case "dry-day":
+      return `marked ${rules.streakName}`;
+    case "dry-reward":
+      return `claimed ${rules.streakRewardName}`;
+    case "undo": {
+      const original = events.find((e) => e.id === event.undoes);
+      return original
+        ? `undid "${describeEvent(original, chart, events)}"`
+        : "undid an older action";
+    }
+  }
+}
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    weekday: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Recent actions on a chart with who did them, and undo for each one.
+// Reloads whenever the chart changes, including changes from other devices.
+export default function StarChartHistory({
+  chart,
+  onUndo,
+  disabled,
+}: {
+  chart: StarChart;
+  onUndo: (eventId: string) => void;
+  disabled: boolean;
+}) {
+  const [events, setEvents] = useState<StarChartEventEntry[]>([]);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const response = await fetch(
+          getApiUrl(`/api/star-chart/${encodeURIComponent(chart.id)}/events`)
+        );
+
+        if (response.ok) {
+          setEvents((await response.json()) as StarChartEventEntry[]);
+        }
+      } catch (error) {
+        console.error("Failed to fetch star chart history:", error);
+      }
+    };
+
+    fetchEvents();
+  }, [chart.id, chart.updatedAt]);
+
+  const lastUndoable = events.find(
+    (event) => event.action !== "undo" && !event.undoneBy
+  );
+
+  const handleUndo = (event: StarChartEvent) => {
+    if (confirm(`Undo "${describeEvent(event, chart, events)}"?`)) {
+      onUndo(event.id);
+    }
+  };
+
+  return (
+    <div className="history-section">
+      <div className="history-header">
+        <h2 className="history-title">📜 History</h2>
+        <button
+          className="history-undo-last"
+          onClick={() => lastUndoable && handleUndo(lastUndoable)}
+          disabled={disabled || !lastUndoable}
+        >
+          ↩️ Undo last action
+        </button>
+      </div>
+
+      {events.length === 0 ? (
+        <p className="history-empty">Nothing yet</p>
+      ) : (
+        <ul className="history-list">
+          {events.map((event) => (
+            <li
+              key={event.id}
+              className={`history-item ${event.undoneBy ? "undone" : ""}`}
+            >
+              <span className="history-time">
+                {formatTimestamp(event.timestamp)}
+              </span>
+              <span className="history-text">
+                <strong>{event.userName}</strong>{" "}
+                {describeEvent(event, chart, events)}
+              </span>
+              {event.action !== "undo" && !event.undoneBy && (
+                <button
+                  className="history-undo"
+                  onClick={() => handleUndo(event)}
+                  disabled={disabled}
+                  title="Undo this action"
+                >
+                  ↩️
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import type { StarChartRules } from "~/../../party/star-chart";
+
+// Read the fields rendered by StarChartRulesFields back out of a submitted form
+export function rulesFromFormData(
+  formData: FormData
+): Record<keyof StarChartRules, FormDataEntryValue | null> {
+  return {
+    exchangeCost: formData.get("exchangeCost"),
+    exchangeRewardName: formData.get("exchangeRewardName"),
+    exchangeRewardAmount: formData.get("exchangeRewardAmount"),
+    exchangeRewardUnit: formData.get("exchangeRewardUnit"),
+    streakName: formData.get("streakName"),
+    streakThreshold: formData.get("streakThreshold"),
+    streakRewardName: formData.get("streakRewardName"),
+  };
+}
+
+// Form inputs for a chart's reward rules, shared by the create and settings forms
+export default function StarChartRulesFields({
+  rules,
+}: {
+  rules: StarChartRules;
+}) {
+  return (
+    <div className="rules-fields">
+      <fieldset className="rules-group">
+        <legend>Squares</legend>
+        <label className="rules-field">
+          <span>Squares per exchange</span>
+          <input
+            type="number"
+            name="exchangeCost"
+            min={1}
+            max={100}
+            defaultValue={rules.exchangeCost}
+            required
+          />
+        </label>
+        <label className="rules-field">
+          <span>Reward</span>
+          <input
+            type="text"
+            name="exchangeRewardName"
+            defaultValue={rules.exchangeRewardName}
+            placeholder="TV time"
+            required
+          />
+        </label>
+        <label className="rules-field">
+          <span>Amount per exchange</span>
+          <input
+            type="number"
+            name="exchangeRewardAmount"
+            min={1}
+            max={100}
+            defaultValue={rules.exchangeRewardAmount}
+            required
+          />
+        </label>
+        <label className="rules-field">
+          <span>Unit</span>
+          <input
+            type="text"
+            name="exchangeRewardUnit"
+            defaultValue={rules.exchangeRewardUnit}
+            placeholder="min"
+          />
+        </label>
+      </fieldset>
+
+      <fieldset className="rules-group">
+        <legend>Streak</legend>
+        <label className="rules-field">
+          <span>Streak name</span>
+          <input
+            type="text"
+            name="streakName"
+            defaultValue={rules.streakName}
+            placeholder="All Day Dry"
+            required
+          />
+        </label>
+        <label className="rules-field">
+          <span>Days for reward</span>
+          <input
+            type="number"
+            name="streakThreshold"
+            min={1}
+            max={100}
+            defaultValue={rules.streakThreshold}
+            required
+          />
+        </label>
+        <label className="rules-field">
+          <span>Streak reward</span>
+          <input
+            type="text"
+            name="streakRewardName"
+            defaultValue={rules.streakRewardName}
+            placeholder="Big Reward"
+            required
+          />
+        </label>
+      </fieldset>
+    </div>
+  );
+}
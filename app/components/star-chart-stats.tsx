@@ -0,0 +1,69 @@
+import BarChart from "~/components/bar-chart";
+import { computeStats } from "~/utils/star-chart";
+import type { StarChart } from "~/../../party/star-chart";
+
+// Dates in stats are YYYY-MM-DD; show them as e.g. "Mar 4" without letting
+// the viewer's time zone shift the day
+const formatDate = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, {
+    ...options,
+    timeZone: "UTC",
+  });
+
+// Progress over time: squares per day and week, streaks, and how often
+// rewards get exchanged. Built from the chart's daily totals.
+export default function StarChartStats({ chart }: { chart: StarChart }) {
+  const stats = computeStats(chart);
+
+  const dayBars = stats.days.map(({ date, earned }) => ({
+    label: formatDate(date, { day: "numeric" }),
+    value: earned,
+    title: `${formatDate(date, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    })}: ${earned}`,
+  }));
+
+  const weekBars = stats.weeks.map(({ start, earned }) => ({
+    label: formatDate(start, { month: "numeric", day: "numeric" }),
+    value: earned,
+    title: `Week of ${formatDate(start, {
+      month: "short",
+      day: "numeric",
+    })}: ${earned}`,
+  }));
+
+  const average = stats.averageDaysBetweenExchanges;
+
+  return (
+    <div className="stats-panel">
+      <div className="stats-summary">
+        <div className="stats-figure">
+          <span className="stats-value">{stats.currentStreak}</span>
+          <span className="stats-label">
+            Current {chart.rules.streakName} streak
+          </span>
+        </div>
+        <div className="stats-figure">
+          <span className="stats-value">{stats.longestStreak}</span>
+          <span className="stats-label">Longest streak</span>
+        </div>
+        <div className="stats-figure">
+          <span className="stats-value">
+            {average === null ? "–" : average.toFixed(1)}
+          </span>
+          <span className="stats-label">
+            Days between {chart.rules.exchangeRewardName}
+          </span>
+        </div>
+      </div>
+
+      <h3 className="stats-heading">Squares per day</h3>
+      <BarChart bars={dayBars} />
+
+      <h3 className="stats-heading">Squares per week</h3>
+      <BarChart bars={weekBars} color="#10b981" />
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useEditor, EditorContent } from "@tiptap/react";
+import type { JSONContent } from "@tiptap/react";
+import type { Extensions } from "@tiptap/core";
+import StarterKit from "@tiptap/starter-kit";
+import { TaskList, TaskItem } from "@tiptap/extension-list";
+import * as Y from "yjs";
+import { Collaboration } from "~/utils/collaboration.client";
+import { getApiUrl } from "~/utils/api.client";
+import { useEffect, useState } from "react";
+import type { DocumentVersion } from "~/../../party/yjs";
+
+// Titles only contain plain paragraphs, so joining the text nodes is enough
+function getFragmentText(fragment: Y.XmlFragment): string {
+  return fragment
+    .toArray()
+    .map((node) =>
+      node instanceof Y.XmlElement
+        ? node
+            .toArray()
+            .map((child) =>
+              child instanceof Y.XmlText ? child.toString() : ""
+            )
+            .join("")
+        : ""
+    )
+    .join(" ")
+    .trim();
+}
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Lists the server-side snapshots of a document, previews a selected one in a
+// read-only editor and hands its content back to the page to restore.
+export default function VersionHistory({
+  slug,
+  documentId,
+  onRestore,
+  onClose,
+}: {
+  slug: string;
+  documentId: string;
+  onRestore: (content: JSONContent, title: string) => void;
+  onClose: () => void;
+}) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [previewDoc, setPreviewDoc] = useState<Y.Doc | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      try {
+        const response = await fetch(
+          getApiUrl(`/api/documents/${encodeURIComponent(slug)}/versions`)
+        );
+
+        if (response.ok) {
+          setVersions((await response.json()) as DocumentVersion[]);
+        }
+      } catch (error) {
+        console.error("Failed to fetch versions:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchVersions();
+  }, [slug]);
+
+  // Destroy the previous preview doc whenever a new one replaces it
+  useEffect(() => {
+    return () => {
+      previewDoc?.destroy();
+    };
+  }, [previewDoc]);
+
+  const previewExtensions: Extensions = previewDoc
+    ? [
+        StarterKit.configure({
+          undoRedo: false,
+          link: false,
+          underline: false,
+          trailingNode: false,
+        }),
+        TaskList,
+        TaskItem.configure({ nested: true }),
+        Collaboration.configure({
+          document: previewDoc,
+          field: `${documentId}-content`,
+        }),
+      ]
+    : [StarterKit];
+
+  const previewEditor = useEditor(
+    {
+      immediatelyRender: false,
+      extensions: previewExtensions,
+      editorProps: {
+        attributes: {
+          class: "content-editor",
+        },
+      },
+      editable: false,
+    },
+    [previewDoc, documentId]
+  );
+
+  const handleSelect = async (versionId: string) => {
+    setSelectedId(versionId);
+    setLoadingPreview(true);
+    try {
+      const response = await fetch(
+        getApiUrl(
+          `/api/documents/${encodeURIComponent(
+            slug
+          )}/versions/${encodeURIComponent(versionId)}`
+        )
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch version");
+      }
+
+      const doc = new Y.Doc();
+      Y.applyUpdate(doc, new Uint8Array(await response.arrayBuffer()));
+      setPreviewDoc(doc);
+    } catch (error) {
+      console.error("Error loading version:", error);
+      alert("Failed to load this version. Please try again.");
+    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!previewDoc || !previewEditor) return;
+
+    if (
+      !confirm(
+        "Restore this version? The current content will be replaced for everyone (you can still undo)."
+      )
+    ) {
+      return;
+    }
+
+    const title = getFragmentText(
+      previewDoc.getXmlFragment(`${documentId}-title`)
+    );
+    onRestore(previewEditor.getJSON(), title);
+  };
+
+  return (
+    <div className="version-history-overlay" onClick={onClose}>
+      <div className="version-history" onClick={(e) => e.stopPropagation()}>
+        <div className="version-history-header">
+          <h2>🕘 Version history</h2>
+          <button className="back-button" onClick={onClose}>
+            ✕ Close
+          </button>
+        </div>
+
+        <div className="version-history-body">
+          <ul className="version-list">
+            {loading ? (
+              <li className="version-empty">Loading versions...</li>
+            ) : versions.length === 0 ? (
+              <li className="version-empty">
+                No saved versions yet. Versions are saved a minute after editing
+                stops.
+              </li>
+            ) : (
+              versions.map((version) => (
+                <li key={version.id}>
+                  <button
+                    className={`version-item ${
+                      version.id === selectedId ? "selected" : ""
+                    }`}
+                    onClick={() => handleSelect(version.id)}
+                  >
+                    <span className="version-time">
+                      {formatTimestamp(version.timestamp)}
+                    </span>
+                    <span className="version-authors">
+                      {version.authors.length > 0
+                        ? version.authors.join(", ")
+                        : "No edits recorded"}
+                    </span>
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+
+          <div className="version-preview">
+            {loadingPreview ? (
+              <div className="version-empty">Loading preview...</div>
+            ) : previewDoc && previewEditor ? (
+              <>
+                <div className="version-preview-title">
+                  {getFragmentText(
+                    previewDoc.getXmlFragment(`${documentId}-title`)
+                  ) || "Untitled"}
+                </div>
+                <div className="content-editor">
+                  <EditorContent editor={previewEditor} />
+                </div>
+              </>
+            ) : (
+              <div className="version-empty">
+                Select a version to preview it
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="version-history-footer">
+          <button
+            className="command-bar-button"
+            onClick={handleRestore}
+            disabled={!previewDoc || loadingPreview}
+          >
+            ↩️ Restore this version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
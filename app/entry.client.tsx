@@ -7,6 +7,7 @@
 import { RemixBrowser } from "@remix-run/react";
 import { startTransition, StrictMode } from "react";
 import { hydrateRoot } from "react-dom/client";
+import { registerServiceWorker } from "./utils/service-worker.client";
 
 startTransition(() => {
   hydrateRoot(
@@ -16,3 +17,8 @@ startTransition(() => {
     </StrictMode>
   );
 });
+
+// Skipped in development, where cached builds would fight live reload
+if (process.env.NODE_ENV !== "development") {
+  window.addEventListener("load", () => registerServiceWorker());
+}
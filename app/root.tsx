@@ -13,6 +13,9 @@ import ViewportSizeLayout from "./components/ViewportSizeLayout";
 export const links: LinksFunction = () => [
   ...(cssBundleHref ? [{ rel: "stylesheet", href: cssBundleHref }] : []),
   { rel: "stylesheet", href: "/styles/root.css" },
+  { rel: "manifest", href: "/manifest.webmanifest" },
+  { rel: "icon", href: "/icons/icon.svg", type: "image/svg+xml" },
+  { rel: "apple-touch-icon", href: "/icons/apple-touch-icon.png" },
 ];
 
 export default function App() {
@@ -24,6 +27,8 @@ export default function App() {
           name="viewport"
           content="width=device-width,initial-scale=1,minimum-scale=1,height=device-height"
         />
+        <meta name="theme-color" content="#1a1a1a" />
+        <meta name="apple-mobile-web-app-capable" content="yes" />
         <Meta />
         <Links />
       </head>
@@ -1,6 +1,6 @@
 import type { LoaderFunction, MetaFunction, LinksFunction } from "partymix";
 import { useLoaderData, Form } from "@remix-run/react";
-import { authenticateLoader } from "~/utils/session.server";
+import { authenticateUser } from "~/utils/session.server";
 import { useEffect, useState } from "react";
 
 export const links: LinksFunction = () => [
@@ -15,8 +15,8 @@ export const meta: MetaFunction = () => {
 };
 
 export const loader: LoaderFunction = async (args) => {
-  const userName = await authenticateLoader(args);
-  return Response.json({ userName });
+  const user = await authenticateUser(args);
+  return Response.json({ userName: user.name, isAdmin: user.isAdmin });
 };
 
 type NetworkStatus = "detecting" | "lan" | "tailscale" | "external";
@@ -62,8 +62,8 @@ const MEDIA_SERVICES = [
 const FAMILY_SERVICES = [
   { name: "Docs", desc: "Shared documents", url: "/docs", icon: "📄" },
   {
-    name: "Potty Chart",
-    desc: "Everett's potty progress",
+    name: "Star Charts",
+    desc: "Reward charts and habits",
     url: "/star-chart",
     icon: "⭐",
   },
@@ -214,7 +214,10 @@ function NetworkBanner({ network }: { network: NetworkStatus }) {
 
 export default function Home() {
   const data = useLoaderData<typeof loader>();
-  const { userName } = data as unknown as { userName: string };
+  const { userName, isAdmin } = data as unknown as {
+    userName: string;
+    isAdmin: boolean;
+  };
   const [network, setNetwork] = useState<NetworkStatus>("detecting");
 
   useEffect(() => {
@@ -246,6 +249,11 @@ export default function Home() {
         <h1 className="home-title">Household</h1>
         <div className="user-info">
           <span>👋 {userName}</span>
+          {isAdmin && (
+            <a href="/members" className="members-link">
+              👥 Members
+            </a>
+          )}
           <Form method="post" action="/logout">
             <button type="submit" className="logout-button">
               Logout
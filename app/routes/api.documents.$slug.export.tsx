@@ -0,0 +1,47 @@
+import type { LoaderFunctionArgs } from "partymix";
+import { requireApiAuth } from "~/utils/session.server";
+import { getDocumentsServer, getYjsServer } from "~/utils/storage.server";
+import { EXPORT_FORMATS, renderDocument } from "~/../../party/document-format";
+import type { ExportFormat } from "~/../../party/document-format";
+
+// GET /api/documents/:slug/export?format=md|txt|html
+// Downloads the live document, rendered from its Yjs content (not the
+// plain-text copy kept with the metadata) so lists and checkboxes survive
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+  await requireApiAuth(request, context.env);
+  const slug = params.slug;
+
+  if (!slug) {
+    throw new Response("Slug required", { status: 400 });
+  }
+
+  const format = new URL(request.url).searchParams.get("format") ?? "md";
+  if (!(format in EXPORT_FORMATS)) {
+    throw new Response("Format must be md, txt or html", { status: 400 });
+  }
+  const { extension, contentType } = EXPORT_FORMATS[format as ExportFormat];
+
+  const decodedSlug = decodeURIComponent(slug);
+
+  const documentsServer = await getDocumentsServer(context.env);
+  const doc = await documentsServer.getDocumentBySlug(decodedSlug);
+
+  if (!doc) {
+    throw new Response("Document not found", { status: 404 });
+  }
+
+  const yjsServer = await getYjsServer(context.env, doc.id);
+  const { title, content } = await yjsServer.getContent();
+  const body = renderDocument(
+    format as ExportFormat,
+    title || doc.title || "Untitled",
+    content
+  );
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${doc.slug}.${extension}"`,
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import type { ActionFunctionArgs } from "partymix";
+import { json } from "@remix-run/react";
+import { requireApiAuth } from "~/utils/session.server";
+import { getDocumentsServer } from "~/utils/storage.server";
+import type { RecurrenceSettings } from "~/../../party/recurrence";
+
+// PUT /api/documents/:slug/recurrence - Reset the document weekly
+//   Body: { weekday, reset: "clear-checked" | "template", templateId? }
+// DELETE /api/documents/:slug/recurrence - Stop resetting it
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  await requireApiAuth(request, context.env);
+  const slug = params.slug;
+
+  if (!slug) {
+    return json({ error: "Slug required" }, { status: 400 });
+  }
+
+  let settings: RecurrenceSettings | null;
+  if (request.method === "PUT") {
+    const body = (await request.json()) as Partial<RecurrenceSettings>;
+    settings = {
+      weekday: Number(body.weekday),
+      reset: body.reset as RecurrenceSettings["reset"],
+      ...(typeof body.templateId === "string" && {
+        templateId: body.templateId,
+      }),
+    };
+  } else if (request.method === "DELETE") {
+    settings = null;
+  } else {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const decodedSlug = decodeURIComponent(slug);
+
+  // The server validates the settings and works out the next reset
+  const documentsServer = await getDocumentsServer(context.env);
+  const result = await documentsServer.setRecurrence(decodedSlug, settings);
+
+  if ("error" in result) {
+    return json({ error: result.error }, { status: result.status });
+  }
+
+  return json(result.document);
+}
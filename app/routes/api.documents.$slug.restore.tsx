@@ -1,20 +1,11 @@
 import type { ActionFunctionArgs } from "partymix";
 import { json } from "@remix-run/react";
-import type { Document } from "./api.documents";
-
-type Env = {
-  IS_LOCAL_DEV?: string;
-};
-
-function getStorageUrl(request: Request, env: Env, path: string = "") {
-  const isLocal = env.IS_LOCAL_DEV === "true";
-  const host = isLocal ? `http://localhost:8787` : `http://schiller.town`;
-  return `${host}/parties/documents-server/default${path}`;
-}
+import { requireApiAuth } from "~/utils/session.server";
+import { getDocumentsServer } from "~/utils/storage.server";
 
 // POST /api/documents/:slug/restore
 export async function action({ request, params, context }: ActionFunctionArgs) {
-  const env = context.env as Env;
+  await requireApiAuth(request, context.env);
   const slug = params.slug;
 
   if (!slug) {
@@ -23,38 +14,12 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
 
   const decodedSlug = decodeURIComponent(slug);
 
-  // Get existing document by slug
-  const getUrl = getStorageUrl(
-    request,
-    env,
-    `/storage-get-by-slug/${encodeURIComponent(decodedSlug)}`
-  );
-  const getResponse = await fetch(getUrl);
-
-  if (!getResponse.ok) {
-    return json({ error: "Document not found" }, { status: 404 });
-  }
-
-  const doc = (await getResponse.json()) as Document;
-
-  // Update archived status
-  const updatedDoc: Document = {
-    ...doc,
-    archived: false,
-    updatedAt: Date.now(),
-  };
-
-  // Save to storage (using id as key)
-  const putUrl = getStorageUrl(request, env, `/storage-put`);
-  const putResponse = await fetch(putUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ value: updatedDoc }),
-  });
+  const documentsServer = await getDocumentsServer(context.env);
+  const result = await documentsServer.restoreDocument(decodedSlug);
 
-  if (!putResponse.ok) {
-    return json({ error: "Failed to restore document" }, { status: 500 });
+  if ("error" in result) {
+    return json({ error: result.error }, { status: result.status });
   }
 
-  return json(updatedDoc);
+  return json(result.document);
 }
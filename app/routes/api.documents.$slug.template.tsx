@@ -0,0 +1,33 @@
+import type { ActionFunctionArgs } from "partymix";
+import { json } from "@remix-run/react";
+import { requireApiAuth } from "~/utils/session.server";
+import { getDocumentsServer } from "~/utils/storage.server";
+
+// POST /api/documents/:slug/template - Offer the document as a template
+// DELETE /api/documents/:slug/template - Stop offering it
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  await requireApiAuth(request, context.env);
+  const slug = params.slug;
+
+  if (!slug) {
+    return json({ error: "Slug required" }, { status: 400 });
+  }
+
+  if (request.method !== "POST" && request.method !== "DELETE") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const decodedSlug = decodeURIComponent(slug);
+
+  const documentsServer = await getDocumentsServer(context.env);
+  const result = await documentsServer.setTemplate(
+    decodedSlug,
+    request.method === "POST"
+  );
+
+  if ("error" in result) {
+    return json({ error: result.error }, { status: result.status });
+  }
+
+  return json(result.document);
+}
@@ -1,21 +1,12 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "partymix";
 import { json } from "@remix-run/react";
 import type { Document } from "./api.documents";
-
-type Env = {
-  IS_LOCAL_DEV?: string;
-};
-
-// Helper to get PartyServer storage URL
-function getStorageUrl(request: Request, env: Env, path: string = "") {
-  const isLocal = env.IS_LOCAL_DEV === "true";
-  const host = isLocal ? `http://localhost:8787` : `http://schiller.town`;
-  return `${host}/parties/documents-server/default${path}`;
-}
+import { requireApiAuth } from "~/utils/session.server";
+import { getDocumentsServer } from "~/utils/storage.server";
 
 // GET /api/documents/:slug
 export async function loader({ request, params, context }: LoaderFunctionArgs) {
-  const env = context.env as Env;
+  await requireApiAuth(request, context.env);
   const slug = params.slug;
 
   if (!slug) {
@@ -23,18 +14,13 @@ export async function loader({ request, params, context }: LoaderFunctionArgs) {
   }
 
   const decodedSlug = decodeURIComponent(slug);
-  const storageUrl = getStorageUrl(
-    request,
-    env,
-    `/storage-get-by-slug/${encodeURIComponent(decodedSlug)}`
-  );
-  const response = await fetch(storageUrl);
-
-  if (!response.ok) {
+  const documentsServer = await getDocumentsServer(context.env);
+  const document = await documentsServer.getDocumentBySlug(decodedSlug);
+
+  if (!document) {
     throw new Response("Document not found", { status: 404 });
   }
 
-  const document = await response.json();
   return json(document);
 }
 
@@ -42,7 +28,7 @@ export async function loader({ request, params, context }: LoaderFunctionArgs) {
 // PATCH /api/documents/:slug (rename)
 // DELETE /api/documents/:slug (delete)
 export async function action({ request, params, context }: ActionFunctionArgs) {
-  const env = context.env as Env;
+  await requireApiAuth(request, context.env);
   const slug = params.slug;
   const method = request.method;
 
@@ -51,45 +37,23 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
   }
 
   const decodedSlug = decodeURIComponent(slug);
+  const documentsServer = await getDocumentsServer(context.env);
 
   // PUT /api/documents/:slug - Update document
   if (method === "PUT") {
-    // Get existing document by slug
-    const getUrl = getStorageUrl(
-      request,
-      env,
-      `/storage-get-by-slug/${encodeURIComponent(decodedSlug)}`
-    );
-    const getResponse = await fetch(getUrl);
-
-    if (!getResponse.ok) {
-      return json({ error: "Document not found" }, { status: 404 });
-    }
-
-    const doc = (await getResponse.json()) as Document;
     const updates = (await request.json()) as Partial<Document>;
 
-    const updatedDoc: Document = {
-      ...doc,
-      ...(updates as Partial<Document>),
-      id: doc.id, // Don't allow changing the ID
-      slug: doc.slug, // Don't allow changing the slug via PUT
-      updatedAt: Date.now(),
-    };
-
-    // Update in storage (using id as key)
-    const storageUrl = getStorageUrl(request, env, `/storage-put`);
-    const response = await fetch(storageUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ value: updatedDoc }),
+    // Only the title and content can change here; see PATCH for the slug
+    const result = await documentsServer.updateDocument(decodedSlug, {
+      title: updates.title,
+      content: updates.content,
     });
 
-    if (!response.ok) {
-      return json({ error: "Failed to update document" }, { status: 500 });
+    if ("error" in result) {
+      return json({ error: result.error }, { status: result.status });
     }
 
-    return json(updatedDoc);
+    return json(result.document);
   }
 
   // PATCH /api/documents/:slug - Rename document (change slug)
@@ -112,98 +76,24 @@ export async function action({ request, params, context }: ActionFunctionArgs) {
       );
     }
 
-    if (newSlug === decodedSlug) {
-      // No change needed, just return existing doc
-      const getUrl = getStorageUrl(
-        request,
-        env,
-        `/storage-get-by-slug/${encodeURIComponent(decodedSlug)}`
-      );
-      const response = await fetch(getUrl);
-      const doc = await response.json();
-      return json(doc);
-    }
+    // Checked and applied in one step, so two renames can't claim the
+    // same slug. The storage key is the id, so it doesn't change.
+    const result = await documentsServer.renameDocument(decodedSlug, newSlug);
 
-    // Check if new slug already exists
-    const checkUrl = getStorageUrl(
-      request,
-      env,
-      `/storage-get-by-slug/${encodeURIComponent(newSlug)}`
-    );
-    const checkResponse = await fetch(checkUrl);
-    if (checkResponse.ok) {
-      return json(
-        { error: "A document with this slug already exists" },
-        { status: 409 }
-      );
+    if ("error" in result) {
+      return json({ error: result.error }, { status: result.status });
     }
 
-    // Get old document
-    const getUrl = getStorageUrl(
-      request,
-      env,
-      `/storage-get-by-slug/${encodeURIComponent(decodedSlug)}`
-    );
-    const getResponse = await fetch(getUrl);
-
-    if (!getResponse.ok) {
-      return json({ error: "Document not found" }, { status: 404 });
-    }
-
-    const doc = (await getResponse.json()) as Document;
-
-    // Create updated document with new slug
-    // No need to change storage key - it uses id!
-    const updatedDoc: Document = {
-      ...doc,
-      slug: newSlug,
-      updatedAt: Date.now(),
-    };
-
-    // Simply update the document in place (storage key is id, which doesn't change)
-    const putUrl = getStorageUrl(request, env, `/storage-put`);
-    await fetch(putUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ value: updatedDoc }),
-    });
-
-    return json(updatedDoc);
+    return json(result.document);
   }
 
   // DELETE /api/documents/:slug - Permanently delete document
   if (method === "DELETE") {
-    // Get document to check if it's archived
-    const getUrl = getStorageUrl(
-      request,
-      env,
-      `/storage-get-by-slug/${encodeURIComponent(decodedSlug)}`
-    );
-    const getResponse = await fetch(getUrl);
-
-    if (!getResponse.ok) {
-      return json({ error: "Document not found" }, { status: 404 });
-    }
-
-    const doc = (await getResponse.json()) as Document;
-
-    if (!doc.archived) {
-      return json(
-        { error: "Document must be archived before it can be deleted" },
-        { status: 400 }
-      );
-    }
-
-    // Delete from storage using id
-    const deleteUrl = getStorageUrl(
-      request,
-      env,
-      `/storage-delete/${encodeURIComponent(doc.id)}`
-    );
-    const response = await fetch(deleteUrl, { method: "POST" });
+    // Only archived documents can be deleted
+    const result = await documentsServer.deleteDocument(decodedSlug);
 
-    if (!response.ok) {
-      return json({ error: "Failed to delete document" }, { status: 500 });
+    if ("error" in result) {
+      return json({ error: result.error }, { status: result.status });
     }
 
     return json({ success: true, deletedSlug: decodedSlug });
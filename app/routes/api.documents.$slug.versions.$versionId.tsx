@@ -0,0 +1,34 @@
+import type { LoaderFunctionArgs } from "partymix";
+import { requireApiAuth } from "~/utils/session.server";
+import { getDocumentsServer, getYjsServer } from "~/utils/storage.server";
+
+// GET /api/documents/:slug/versions/:versionId
+// Returns the full Yjs state of the version as a binary update
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+  await requireApiAuth(request, context.env);
+  const { slug, versionId } = params;
+
+  if (!slug || !versionId) {
+    throw new Response("Slug and version required", { status: 400 });
+  }
+
+  const decodedSlug = decodeURIComponent(slug);
+
+  const documentsServer = await getDocumentsServer(context.env);
+  const doc = await documentsServer.getDocumentBySlug(decodedSlug);
+
+  if (!doc) {
+    throw new Response("Document not found", { status: 404 });
+  }
+
+  const yjsServer = await getYjsServer(context.env, doc.id);
+  const data = await yjsServer.getVersion(versionId);
+
+  if (!data) {
+    throw new Response("Version not found", { status: 404 });
+  }
+
+  return new Response(data, {
+    headers: { "Content-Type": "application/octet-stream" },
+  });
+}
@@ -0,0 +1,28 @@
+import type { LoaderFunctionArgs } from "partymix";
+import { json } from "@remix-run/react";
+import { requireApiAuth } from "~/utils/session.server";
+import { getDocumentsServer, getYjsServer } from "~/utils/storage.server";
+
+// GET /api/documents/:slug/versions
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+  await requireApiAuth(request, context.env);
+  const slug = params.slug;
+
+  if (!slug) {
+    throw new Response("Slug required", { status: 400 });
+  }
+
+  const decodedSlug = decodeURIComponent(slug);
+
+  // Versions are stored per document id, so resolve the slug first
+  const documentsServer = await getDocumentsServer(context.env);
+  const doc = await documentsServer.getDocumentBySlug(decodedSlug);
+
+  if (!doc) {
+    throw new Response("Document not found", { status: 404 });
+  }
+
+  const yjsServer = await getYjsServer(context.env, doc.id);
+  const versions = await yjsServer.listVersions();
+  return json(versions);
+}
@@ -0,0 +1,20 @@
+import type { LoaderFunctionArgs } from "partymix";
+import { json } from "@remix-run/react";
+import { requireApiAuth } from "~/utils/session.server";
+import { getDocumentsServer } from "~/utils/storage.server";
+
+// GET /api/documents/search?q=
+// Searches titles and content of both active and archived documents
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  await requireApiAuth(request, context.env);
+  const url = new URL(request.url);
+  const query = url.searchParams.get("q")?.trim() || "";
+
+  if (!query) {
+    return json([]);
+  }
+
+  const documentsServer = await getDocumentsServer(context.env);
+  const results = await documentsServer.search(query);
+  return json(results);
+}
@@ -0,0 +1,59 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "partymix";
+import { json } from "@remix-run/react";
+import { requireApiAuth } from "~/utils/session.server";
+import { getCategorizerServer } from "~/utils/storage.server";
+
+export type { CategoryOverride } from "~/../../party/override-store";
+
+// GET /api/grocery-categories - Departments learned from corrections
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  await requireApiAuth(request, context.env);
+  const categorizer = await getCategorizerServer(context.env);
+  return json(await categorizer.listOverrides());
+}
+
+// POST /api/grocery-categories - Learn an item's department
+//   Body: { item, department }
+// DELETE /api/grocery-categories - Forget an item
+//   Body: { item }
+export async function action({ request, context }: ActionFunctionArgs) {
+  const userName = await requireApiAuth(request, context.env);
+  const body = (await request.json()) as {
+    item?: unknown;
+    department?: unknown;
+  };
+
+  if (typeof body.item !== "string") {
+    return json({ error: "Item required" }, { status: 400 });
+  }
+
+  const categorizer = await getCategorizerServer(context.env);
+
+  if (request.method === "POST") {
+    if (typeof body.department !== "string") {
+      return json({ error: "Department required" }, { status: 400 });
+    }
+
+    const override = await categorizer.setOverride(
+      body.item,
+      body.department,
+      userName
+    );
+    if (!override) {
+      return json(
+        { error: "Item and department can't be blank" },
+        { status: 400 }
+      );
+    }
+    return json(override);
+  }
+
+  if (request.method === "DELETE") {
+    if (!(await categorizer.deleteOverride(body.item))) {
+      return json({ error: "Item not found" }, { status: 404 });
+    }
+    return json({ success: true });
+  }
+
+  return json({ error: "Method not allowed" }, { status: 405 });
+}
@@ -1,9 +1,13 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "partymix";
 import { json } from "@remix-run/react";
 import { organizeGroceriesByDepartment } from "~/../../party/grocery-categorizer";
+import { getCategorizerBackend } from "~/../../party/categorizer-backends";
+import { requireApiAuth } from "~/utils/session.server";
+import { getCategorizerServer } from "~/utils/storage.server";
 
 // GET /api/organize-list (handles OPTIONS for CORS preflight)
-export async function loader({ request }: LoaderFunctionArgs) {
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  await requireApiAuth(request, context.env);
   return json(
     { ok: true },
     {
@@ -17,7 +21,10 @@ export async function loader({ request }: LoaderFunctionArgs) {
 }
 
 // POST /api/organize-list
+//   Body: { items: string[] }
+//   Returns: { organized: GroceryGroup[] }, duplicates merged
 export async function action({ request, context }: ActionFunctionArgs) {
+  await requireApiAuth(request, context.env);
   const body = (await request.json()) as { items?: string[] };
 
   if (!body.items || !Array.isArray(body.items)) {
@@ -32,12 +39,31 @@ export async function action({ request, context }: ActionFunctionArgs) {
     );
   }
 
-  // Get ANTHROPIC_API_KEY from Remix context (passed from PartyKit env)
-  const apiKey = context?.env?.ANTHROPIC_API_KEY as string | undefined;
+  // The model to categorize with, chosen by CATEGORIZER_BACKEND from the
+  // Remix context (passed from the worker env)
+  const backend = getCategorizerBackend(context.env);
 
-  // Use the grocery categorizer directly - it will automatically choose between
-  // AI and keyword-based categorization depending on API key availability
-  const organized = await organizeGroceriesByDepartment(body.items, apiKey);
+  // Corrections the household has made before take priority, and the
+  // household's own departments are used for everything else
+  const categorizer = await getCategorizerServer(context.env);
+  const [overrides, departments, version] = await Promise.all([
+    categorizer.getOverrideMap(),
+    categorizer.getDepartments(),
+    categorizer.getDepartmentsVersion(),
+  ]);
+
+  // Use the grocery categorizer directly - it falls back to keyword matching
+  // when there's no backend, or it fails or is slow. Items categorized before
+  // with these departments aren't sent to the backend again.
+  const organized = await organizeGroceriesByDepartment(body.items, {
+    backend,
+    overrides,
+    departments,
+    cache: {
+      get: (items) => categorizer.getCachedDepartments(items, version),
+      set: (cached) => categorizer.cacheDepartments(cached, version),
+    },
+  });
 
   return json(
     { organized },
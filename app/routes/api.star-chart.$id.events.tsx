@@ -0,0 +1,18 @@
+import type { LoaderFunctionArgs } from "partymix";
+import { json } from "@remix-run/react";
+import { requireApiAuth } from "~/utils/session.server";
+import { getStarChartServer } from "~/utils/storage.server";
+
+// GET /api/star-chart/:id/events - recent history, newest first
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+  await requireApiAuth(request, context.env);
+  const id = params.id;
+
+  if (!id) {
+    throw new Response("Chart id required", { status: 400 });
+  }
+
+  const starChartServer = await getStarChartServer(context.env);
+  const events = await starChartServer.listEvents(id);
+  return json(events);
+}
@@ -0,0 +1,88 @@
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "partymix";
+import { json } from "@remix-run/react";
+import { requireApiAuth } from "~/utils/session.server";
+import { getStarChartServer } from "~/utils/storage.server";
+import { parseRules } from "~/utils/star-chart";
+
+// GET /api/star-chart/:id - fetch the chart state
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+  await requireApiAuth(request, context.env);
+  const id = params.id;
+
+  if (!id) {
+    throw new Response("Chart id required", { status: 400 });
+  }
+
+  // The server ages out old exchanges as it reads the chart
+  const starChartServer = await getStarChartServer(context.env);
+  const chart = await starChartServer.getChart(id);
+
+  if (!chart) {
+    throw new Response("Star chart not found", { status: 404 });
+  }
+
+  return json(chart);
+}
+
+// POST /api/star-chart/:id - handle actions (add, subtract, exchange, ..., undo)
+// PATCH /api/star-chart/:id - update the title and reward rules
+// Each change is checked and applied by StarChartServer in a single call, so
+// taps from two devices at once can't overwrite each other.
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  const userName = await requireApiAuth(request, context.env);
+  const id = params.id;
+
+  if (!id) {
+    return json({ error: "Chart id required" }, { status: 400 });
+  }
+
+  const starChartServer = await getStarChartServer(context.env);
+
+  if (request.method === "PATCH") {
+    const updates = (await request.json()) as {
+      title?: string;
+      rules?: Record<string, unknown>;
+    };
+
+    const title = updates.title?.trim();
+    if (!title) {
+      return json({ error: "Title is required" }, { status: 400 });
+    }
+
+    const parsed = parseRules(updates.rules ?? {});
+    if ("error" in parsed) {
+      return json({ error: parsed.error }, { status: 400 });
+    }
+
+    const result = await starChartServer.updateChart(id, title, parsed.rules);
+    if ("error" in result) {
+      return json({ error: result.error }, { status: result.status });
+    }
+    return json(result.chart);
+  }
+
+  const body = (await request.json()) as {
+    action: string;
+    amount?: number;
+    eventId?: string;
+  };
+
+  // Reverse an earlier event, recording the undo as an event of its own
+  if (body.action === "undo" && !body.eventId) {
+    return json({ error: "Event id required" }, { status: 400 });
+  }
+
+  const result =
+    body.action === "undo"
+      ? await starChartServer.undoEvent(id, body.eventId!, userName)
+      : await starChartServer.applyAction(
+          id,
+          body.action,
+          body.amount,
+          userName
+        );
+  if ("error" in result) {
+    return json({ error: result.error }, { status: result.status });
+  }
+  return json(result.chart);
+}
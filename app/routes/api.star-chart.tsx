@@ -1,243 +1,68 @@
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "partymix";
 import { json } from "@remix-run/react";
-import type { StarChart, StarChartExchange } from "~/../../party/star-chart";
-
-// Hardcoded chart ID for now - can support multiple charts in the future
-const CHART_ID = "everett-potty";
-
-/**
- * Age out completed exchanges that are past end of day (in Pacific time).
- * Returns true if any exchanges were removed.
- */
-function ageOutOldExchanges(chart: StarChart): boolean {
-  // Get today's date in Pacific time
-  const formatter = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/Los_Angeles",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  });
-  const todayStr = formatter.format(new Date()); // Returns YYYY-MM-DD
-
-  const initialLength = chart.exchanges.length;
-
-  // Calculate total squares in exchanges that will be removed
-  const squaresToRemove = chart.exchanges
-    .filter((exchange) => exchange.usedDate < todayStr)
-    .reduce((sum, exchange) => sum + exchange.squaresExchanged, 0);
-
-  // Remove exchanges where usedDate is before today
-  chart.exchanges = chart.exchanges.filter((exchange) => {
-    return exchange.usedDate >= todayStr;
-  });
-
-  // Reduce totalSquares by the number of exchanged squares that were aged out
-  if (squaresToRemove > 0) {
-    chart.totalSquares = Math.max(0, chart.totalSquares - squaresToRemove);
-  }
-
-  return chart.exchanges.length < initialLength;
+import type { StarChart } from "~/../../party/star-chart";
+import { requireApiAuth } from "~/utils/session.server";
+import { getStarChartServer } from "~/utils/storage.server";
+import { parseRules, slugifyChartTitle } from "~/utils/star-chart";
+
+// GET /api/star-chart - list all charts
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  await requireApiAuth(request, context.env);
+  const starChartServer = await getStarChartServer(context.env);
+  return json(await starChartServer.listCharts());
 }
 
-function getStorageUrl(request: Request, path: string = "") {
-  const url = new URL(request.url);
-  // In production, use the actual request host
-  // In development (localhost or 127.0.0.1), use the local dev server
-  const isProduction = url.hostname === "schiller.town";
-  const host = isProduction
-    ? `${url.protocol}//${url.host}`
-    : "http://127.0.0.1:8787";
-  return `${host}/parties/star-chart-server/default${path}`;
-}
-
-// GET /api/star-chart - fetch the chart state
-export async function loader({ request }: LoaderFunctionArgs) {
-  const storageUrl = getStorageUrl(request, `/storage-get/${CHART_ID}`);
-  const response = await fetch(storageUrl);
-
-  if (response.status === 404) {
-    // Chart doesn't exist, create it
-    const newChart: StarChart = {
-      id: CHART_ID,
-      type: "potty-training",
-      title: "Everett's Potty Chart",
-      totalSquares: 0,
-      dryCount: 0,
-      exchanges: [],
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    };
-
-    const putUrl = getStorageUrl(request, "/storage-put");
-    await fetch(putUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ value: newChart }),
-    });
+// POST /api/star-chart - create a chart
+export async function action({ request, context }: ActionFunctionArgs) {
+  await requireApiAuth(request, context.env);
 
-    return json(newChart);
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
   }
 
-  if (!response.ok) {
-    throw new Response("Failed to fetch star chart", { status: 500 });
-  }
-
-  const chart = (await response.json()) as Partial<StarChart>;
-
-  // Ensure chart has all required properties with defaults
-  const validatedChart: StarChart = {
-    id: chart.id ?? CHART_ID,
-    type: chart.type ?? "potty-training",
-    title: chart.title ?? "Everett's Potty Chart",
-    totalSquares: chart.totalSquares ?? 0,
-    dryCount: chart.dryCount ?? 0,
-    exchanges: Array.isArray(chart.exchanges) ? chart.exchanges : [],
-    createdAt: chart.createdAt ?? Date.now(),
-    updatedAt: chart.updatedAt ?? Date.now(),
+  const body = (await request.json()) as {
+    title?: string;
+    rules?: Record<string, unknown>;
   };
 
-  // Age out old exchanges client-side as well (in case PartyServer cleanup didn't trigger)
-  const wasModified = ageOutOldExchanges(validatedChart);
-  if (wasModified) {
-    validatedChart.updatedAt = Date.now();
-    // Save the cleaned chart back to storage
-    const putUrl = getStorageUrl(request, "/storage-put");
-    await fetch(putUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ value: validatedChart }),
-    });
+  const title = body.title?.trim();
+  if (!title) {
+    return json({ error: "Title is required" }, { status: 400 });
   }
 
-  return json(validatedChart);
-}
-
-// POST /api/star-chart - handle actions (add, subtract, exchange)
-export async function action({ request }: ActionFunctionArgs) {
-  const body = (await request.json()) as { action: string; amount?: number };
-  const { action, amount } = body;
-
-  // Fetch current chart state
-  const storageUrl = getStorageUrl(request, `/storage-get/${CHART_ID}`);
-  const response = await fetch(storageUrl);
-
-  let rawChart: Partial<StarChart>;
+  const id = slugifyChartTitle(title);
+  if (!id) {
+    return json(
+      { error: "Title must contain letters or numbers" },
+      { status: 400 }
+    );
+  }
 
-  if (response.status === 404) {
-    // Chart doesn't exist, create it
-    rawChart = {
-      id: CHART_ID,
-      type: "potty-training",
-      title: "Everett's Potty Chart",
-      totalSquares: 0,
-      dryCount: 0,
-      exchanges: [],
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    };
-  } else if (!response.ok) {
-    return json({ error: "Failed to fetch star chart" }, { status: 500 });
-  } else {
-    rawChart = (await response.json()) as Partial<StarChart>;
+  const parsed = parseRules(body.rules ?? {});
+  if ("error" in parsed) {
+    return json({ error: parsed.error }, { status: 400 });
   }
 
-  // Ensure chart has all required properties with defaults
+  const now = Date.now();
   const chart: StarChart = {
-    id: rawChart.id ?? CHART_ID,
-    type: rawChart.type ?? "potty-training",
-    title: rawChart.title ?? "Everett's Potty Chart",
-    totalSquares: rawChart.totalSquares ?? 0,
-    dryCount: rawChart.dryCount ?? 0,
-    exchanges: Array.isArray(rawChart.exchanges) ? rawChart.exchanges : [],
-    createdAt: rawChart.createdAt ?? Date.now(),
-    updatedAt: rawChart.updatedAt ?? Date.now(),
+    id,
+    type: "custom",
+    title,
+    totalSquares: 0,
+    dryCount: 0,
+    exchanges: [],
+    rules: parsed.rules,
+    daily: {},
+    createdAt: now,
+    updatedAt: now,
   };
 
-  // Age out old exchanges before performing any actions
-  ageOutOldExchanges(chart);
-
-  // Calculate current active squares (total - exchanged)
-  const totalExchanged = chart.exchanges.reduce(
-    (sum, ex) => sum + ex.squaresExchanged,
-    0
-  );
-
-  const activeSquares = chart.totalSquares - totalExchanged;
-
-  // Handle different actions
-  if (action === "add") {
-    if (typeof amount !== "number" || amount <= 0) {
-      return json({ error: "Invalid amount" }, { status: 400 });
-    }
-
-    chart.totalSquares += amount;
-    chart.updatedAt = Date.now();
-  } else if (action === "subtract") {
-    // Only subtract from active squares
-    if (activeSquares <= 0) {
-      return json({ error: "No active squares to subtract" }, { status: 400 });
-    }
-
-    chart.totalSquares = Math.max(totalExchanged, chart.totalSquares - 1);
-    chart.updatedAt = Date.now();
-  } else if (action === "exchange") {
-    // Validate we have at least 20 active squares
-    if (activeSquares < 20) {
-      return json(
-        { error: "Need at least 20 active squares to exchange" },
-        { status: 400 }
-      );
-    }
-
-    // Calculate the square range for this exchange
-    const startSquare = totalExchanged + 1;
-    const endSquare = totalExchanged + 20;
-
-    // Get current date in Pacific time (YYYY-MM-DD format)
-    const formatter = new Intl.DateTimeFormat("en-CA", {
-      timeZone: "America/Los_Angeles",
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-    });
-    const usedDate = formatter.format(new Date()); // Returns YYYY-MM-DD
-
-    const newExchange: StarChartExchange = {
-      timestamp: Date.now(),
-      squaresExchanged: 20,
-      squareRange: [startSquare, endSquare],
-      usedDate,
-    };
-
-    chart.exchanges.push(newExchange);
-    chart.updatedAt = Date.now();
-  } else if (action === "dry-day") {
-    chart.dryCount += 1;
-    chart.updatedAt = Date.now();
-  } else if (action === "dry-reward") {
-    if (chart.dryCount < 20) {
-      return json(
-        { error: "Need at least 20 dry days to claim reward" },
-        { status: 400 }
-      );
-    }
-    chart.dryCount -= 20;
-    chart.updatedAt = Date.now();
-  } else {
-    return json({ error: "Invalid action" }, { status: 400 });
-  }
-
-  // Save updated chart
-  const putUrl = getStorageUrl(request, "/storage-put");
-  const saveResponse = await fetch(putUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ value: chart }),
-  });
-
-  if (!saveResponse.ok) {
-    return json({ error: "Failed to save chart" }, { status: 500 });
+  // Chart ids come from the title, so two charts can't share a title
+  const starChartServer = await getStarChartServer(context.env);
+  const result = await starChartServer.createChart(chart);
+  if ("error" in result) {
+    return json({ error: result.error }, { status: result.status });
   }
 
-  return json(chart);
+  return json(result.chart, { status: 201 });
 }
@@ -1,22 +1,35 @@
 import type { LoaderFunction, MetaFunction } from "partymix";
+import { redirect } from "partymix";
 import { useLoaderData, Form, useNavigate } from "@remix-run/react";
-import WhosHere from "../components/whos-here";
+import CollaboratorAvatars from "../components/collaborator-avatars";
+import VersionHistory from "../components/version-history";
+import RecurrenceSettingsPanel from "../components/recurrence-settings";
 import { useEditor, EditorContent } from "@tiptap/react";
+import type { JSONContent } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
 import Document from "@tiptap/extension-document";
 import Text from "@tiptap/extension-text";
 import Paragraph from "@tiptap/extension-paragraph";
 import Placeholder from "@tiptap/extension-placeholder";
 import History from "@tiptap/extension-history";
+import { TaskList, TaskItem } from "@tiptap/extension-list";
 import {
   Collaboration,
+  CollaborationCaret,
   getYDoc,
   getProvider,
+  getPersistence,
+  getUserColor,
 } from "~/utils/collaboration.client";
 import { MergeAdjacentLists } from "~/utils/merge-adjacent-lists";
 import { authenticateLoader } from "~/utils/session.server";
+import { getDocumentsServer } from "~/utils/storage.server";
 import { getApiUrl } from "~/utils/api.client";
+import { getItemHeadings, normalizeItem } from "~/utils/category-learning";
 import { useEffect, useRef, useState, useMemo } from "react";
+import { WEEKDAYS } from "~/../../party/recurrence";
+import type { DocumentRecurrence } from "~/../../party/recurrence";
+import type { GroceryGroup } from "~/../../party/grocery-categorizer";
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
   const slug =
@@ -35,8 +48,7 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
 };
 
 export const loader: LoaderFunction = async function (args) {
-  const { request, params, context } = args;
-  const env = context.env as any;
+  const { params, context } = args;
   const userName = await authenticateLoader(args);
   const slug = params.slug;
 
@@ -44,51 +56,105 @@ export const loader: LoaderFunction = async function (args) {
     throw new Response("Not Found", { status: 404 });
   }
 
-  // Fetch the document to get its ID
-  // With custom domain routing in wrangler.toml, both request.url and Host header
-  // show the production domain even in local dev. Use environment variable instead.
-  const isLocal = env.IS_LOCAL_DEV === "true";
-  const host = isLocal ? `http://localhost:8787` : `http://schiller.town`;
+  // Look up the document's id, which names its collaboration room
+  const documentsServer = await getDocumentsServer(context.env);
+  const document = await documentsServer.getDocumentBySlug(slug);
 
-  try {
-    // Call Remix API route
-    const response = await fetch(
-      `${host}/api/documents/${encodeURIComponent(slug)}`
-    );
-
-    if (!response.ok) {
-      throw new Response("Document Not Found", { status: 404 });
+  if (!document) {
+    // Links from before a rename go to the document's current slug
+    const renamed = await documentsServer.getDocumentByPreviousSlug(slug);
+    if (renamed) {
+      throw redirect(`/docs/${encodeURIComponent(renamed.slug)}`, 301);
     }
 
-    const document = (await response.json()) as { id: string };
-
-    return Response.json({
-      userName,
-      slug,
-      documentId: document.id,
-    });
-  } catch (error) {
     throw new Response("Document Not Found", { status: 404 });
   }
+
+  return Response.json({
+    userName,
+    slug,
+    documentId: document.id,
+    recurrence: document.recurrence ?? null,
+  });
+};
+
+// Container nodes whose children are list items
+const LIST_TYPES = ["bulletList", "orderedList", "taskList"];
+
+// A list item pulled out of the editor. checked is null for plain bullets.
+type ListEntry = {
+  text: string;
+  checked: boolean | null;
 };
 
+// Build a bullet list, or a task list if any of the entries came from one
+function buildListNode(entries: ListEntry[]) {
+  if (entries.some((entry) => entry.checked !== null)) {
+    return {
+      type: "taskList",
+      content: entries.map((entry) => ({
+        type: "taskItem",
+        attrs: { checked: entry.checked === true },
+        content: [
+          {
+            type: "paragraph",
+            content: [{ type: "text", text: entry.text }],
+          },
+        ],
+      })),
+    };
+  }
+
+  return {
+    type: "bulletList",
+    content: entries.map((entry) => ({
+      type: "listItem",
+      content: [
+        {
+          type: "paragraph",
+          content: [{ type: "text", text: entry.text }],
+        },
+      ],
+    })),
+  };
+}
+
 export default function DocPage() {
   const data = useLoaderData<typeof loader>();
-  const { userName, slug, documentId } = data as unknown as {
+  const {
+    userName,
+    slug,
+    documentId,
+    recurrence: savedRecurrence,
+  } = data as unknown as {
     userName: string;
     slug: string;
     documentId: string;
+    recurrence: DocumentRecurrence | null;
   };
   const navigate = useNavigate();
   const updateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const metadataPendingRef = useRef(false);
   const contentEditorRef = useRef<any>(null);
+  // Where Group Items last put each item, to learn from items moved afterwards
+  const organizedRef = useRef<{
+    departments: Set<string>;
+    items: Map<string, string>;
+  } | null>(null);
   const [ydoc, setYdoc] = useState<ReturnType<typeof getYDoc>>(null);
+  const [provider, setProvider] =
+    useState<ReturnType<typeof getProvider>>(null);
   const [isClient, setIsClient] = useState(false);
   const [isOrganizing, setIsOrganizing] = useState(false);
   const [isSynced, setIsSynced] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
   const [hasListSelection, setHasListSelection] = useState(false);
   const [canUndo, setCanUndo] = useState(false);
   const [canRedo, setCanRedo] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [recurrence, setRecurrence] = useState(savedRecurrence);
+  const [showRecurrence, setShowRecurrence] = useState(false);
+  const [checkedCount, setCheckedCount] = useState(0);
 
   // No longer need visual viewport tracking with static positioning
   // The command bar will naturally be at the bottom of the flex container
@@ -153,6 +219,7 @@ export default function DocPage() {
     // Reset sync state when document changes
     setIsSynced(false);
     setYdoc(null);
+    setProvider(null);
 
     // IMPORTANT: Get provider first (it handles cleanup if room changed)
     // then get the ydoc reference to ensure they're in sync
@@ -160,8 +227,19 @@ export default function DocPage() {
     const doc = getYDoc();
     if (doc && provider) {
       setYdoc(doc);
+      setProvider(provider);
+
+      // Share who we are right away so we show up in the avatar list
+      // before the editor (and its cursor) has loaded
+      provider.awareness.setLocalStateField("user", {
+        name: userName,
+        color: getUserColor(userName),
+      });
 
-      // Wait for initial sync before showing editors
+      // Wait for initial sync before showing editors. Whichever finishes
+      // first wins: the server, or the copy saved on this device (so the
+      // editor still opens with no signal)
+      let cancelled = false;
       const handleSync = (synced: boolean) => {
         if (synced) {
           setIsSynced(true);
@@ -173,13 +251,27 @@ export default function DocPage() {
         setIsSynced(true);
       } else {
         provider.on("synced", handleSync);
+        getPersistence()?.whenSynced.then(() => {
+          if (!cancelled) setIsSynced(true);
+        });
       }
 
+      // Ignore "connecting" so retries while offline don't flicker the
+      // indicator, and a normal page load doesn't flash it
+      const handleStatus = ({ status }: { status: string }) => {
+        if (status === "connected") setIsOnline(true);
+        if (status === "disconnected") setIsOnline(false);
+      };
+      setIsOnline(true);
+      provider.on("status", handleStatus);
+
       return () => {
+        cancelled = true;
         provider.off("synced", handleSync);
+        provider.off("status", handleStatus);
       };
     }
-  }, [documentId]);
+  }, [documentId, userName]);
 
   // Only create editors on the client when ydoc is ready AND synced
   // For SSR, provide minimal extensions to avoid schema errors
@@ -223,26 +315,41 @@ export default function DocPage() {
   const contentEditor = useEditor(
     {
       immediatelyRender: false,
-      extensions: (isClient && ydoc && isSynced
-        ? [
-            StarterKit.configure({
-              history: false, // Disable StarterKit history, use separate History extension
-              bulletList: {
-                keepMarks: true,
-                keepAttributes: false,
-              },
-            }),
-            Placeholder.configure({
-              placeholder: "Start writing...",
-            }),
-            Collaboration.configure({
-              document: ydoc,
-              field: `${documentId}-content`,
-            }),
-            History, // Enable history for undo/redo
-            MergeAdjacentLists,
-          ]
-        : [StarterKit]) as any[],
+      extensions:
+        isClient && ydoc && provider && isSynced
+          ? [
+              StarterKit.configure({
+                undoRedo: false, // Disable StarterKit history, use separate History extension
+                // New in StarterKit 3, and not part of the documents' schema
+                link: false,
+                underline: false,
+                trailingNode: false,
+                bulletList: {
+                  keepMarks: true,
+                  keepAttributes: false,
+                },
+              }),
+              Placeholder.configure({
+                placeholder: "Start writing...",
+              }),
+              Collaboration.configure({
+                document: ydoc,
+                field: `${documentId}-content`,
+              }),
+              // Cursors are only shown in the content editor: both editors share
+              // one awareness instance, which has room for a single cursor
+              CollaborationCaret.configure({
+                provider,
+                user: { name: userName, color: getUserColor(userName) },
+              }),
+              History, // Enable history for undo/redo
+              TaskList,
+              TaskItem.configure({
+                nested: true,
+              }),
+              MergeAdjacentLists,
+            ]
+          : [StarterKit],
       editorProps: {
         attributes: {
           class: "content-editor",
@@ -250,7 +357,7 @@ export default function DocPage() {
       },
       editable: isClient && !!ydoc && isSynced,
     },
-    [isClient, ydoc, isSynced, documentId]
+    [isClient, ydoc, provider, isSynced, documentId, userName]
   );
 
   // Store contentEditor in ref so titleEditor can access it
@@ -269,13 +376,22 @@ export default function DocPage() {
       let hasListItem = false;
 
       state.doc.nodesBetween(from, to, (node) => {
-        if (node.type.name === "listItem") {
+        if (node.type.name === "listItem" || node.type.name === "taskItem") {
           hasListItem = true;
         }
       });
 
       setHasListSelection(hasListItem && from !== to);
 
+      // Count checked task items for the Clear checked button
+      let checked = 0;
+      state.doc.descendants((node) => {
+        if (node.type.name === "taskItem" && node.attrs.checked) {
+          checked++;
+        }
+      });
+      setCheckedCount(checked);
+
       // Update undo/redo availability
       setCanUndo(contentEditor.can().undo());
       setCanRedo(contentEditor.can().redo());
@@ -294,6 +410,51 @@ export default function DocPage() {
     };
   }, [contentEditor]);
 
+  // After Group Items, an item moved under another of the headings it made
+  // is a correction: remember it so the item is grouped there next time
+  useEffect(() => {
+    if (!contentEditor) return;
+
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    const learnCorrections = () => {
+      const organized = organizedRef.current;
+      if (!organized) return;
+
+      const headings = getItemHeadings(contentEditor.state.doc);
+      for (const [item, department] of organized.items) {
+        const heading = headings.get(item);
+        if (
+          !heading ||
+          heading === department ||
+          !organized.departments.has(heading)
+        ) {
+          continue;
+        }
+
+        organized.items.set(item, heading);
+        fetch(getApiUrl("/api/grocery-categories"), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ item, department: heading }),
+        }).catch((error) => {
+          console.error("Failed to save grocery category:", error);
+        });
+      }
+    };
+
+    // Wait for a drag or cut-and-paste to finish before comparing
+    const handleUpdate = () => {
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(learnCorrections, 2000);
+    };
+
+    contentEditor.on("update", handleUpdate);
+    return () => {
+      contentEditor.off("update", handleUpdate);
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [contentEditor]);
+
   // Handler to organize selected list items
   const handleOrganizeList = async () => {
     if (!contentEditor) return;
@@ -307,19 +468,29 @@ export default function DocPage() {
       // We collect all list items and flatten them
       const items: string[] = [];
       const seenItems = new Set<string>(); // Track items we've seen to avoid duplicates
+      // Checked state of each item by normalized text, in document order, so
+      // it can be put back once the items come back regrouped
+      const checkedByText = new Map<string, (boolean | null)[]>();
 
       state.doc.nodesBetween(from, to, (node, pos) => {
-        if (node.type.name === "listItem") {
+        if (node.type.name === "listItem" || node.type.name === "taskItem") {
           const text = node.textContent.trim();
           // Create a unique key using position to avoid duplicate items
           const key = `${pos}-${text}`;
           if (text && !seenItems.has(key)) {
             items.push(text);
             seenItems.add(key);
+            const checked =
+              node.type.name === "taskItem" ? !!node.attrs.checked : null;
+            const states = checkedByText.get(normalizeItem(text)) || [];
+            checkedByText.set(normalizeItem(text), [...states, checked]);
           }
         }
         return true; // Continue traversing
       });
+      const hasTaskItems = Array.from(checkedByText.values()).some((states) =>
+        states.some((checked) => checked !== null)
+      );
 
       if (items.length === 0) {
         alert("Please select list items to organize");
@@ -339,7 +510,7 @@ export default function DocPage() {
         throw new Error("Failed to organize list");
       }
 
-      const result = (await response.json()) as { organized: string[] };
+      const result = (await response.json()) as { organized: GroceryGroup[] };
       const { organized } = result;
 
       if (organized.length === 0) {
@@ -347,54 +518,42 @@ export default function DocPage() {
         return;
       }
 
-      // Filter out any empty items
-      const validItems = organized.filter(
-        (item: string) => item && item.trim().length > 0
-      );
-
-      // Build content with headings and lists
-      // Items starting with [ are group labels, others are list items
+      // Build content with a heading and a list for each department
       const content: any[] = [];
-      let currentGroup: any[] = [];
-
-      validItems.forEach((item: string) => {
-        const trimmed = item.trim();
-        if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
-          // This is a group label - add previous list if any, then add heading
-          if (currentGroup.length > 0) {
-            content.push({
-              type: "bulletList",
-              content: currentGroup,
-            });
-            currentGroup = [];
-          }
-          // Add heading
-          content.push({
-            type: "heading",
-            attrs: { level: 2 },
-            content: [{ type: "text", text: trimmed.slice(1, -1) }], // Remove [ and ]
-          });
-        } else {
-          // This is a list item
-          currentGroup.push({
-            type: "listItem",
-            content: [
-              {
-                type: "paragraph",
-                content: [{ type: "text", text: trimmed }],
-              },
-            ],
-          });
-        }
-      });
+      const departments = new Set<string>();
+      const departmentByItem = new Map<string, string>();
 
-      // Add the last group if any
-      if (currentGroup.length > 0) {
+      organized.forEach(({ department, items }) => {
+        departments.add(department);
         content.push({
-          type: "bulletList",
-          content: currentGroup,
+          type: "heading",
+          attrs: { level: 2 },
+          content: [{ type: "text", text: department }],
         });
-      }
+
+        const entries = items.map((item): ListEntry => {
+          departmentByItem.set(normalizeItem(item.text), department);
+
+          // Restore the checked state of the lines the item came from: a
+          // merged item is checked only if all of them were. Items the
+          // organizer reworded come back unchecked.
+          const states = item.sources
+            .map((source) => checkedByText.get(normalizeItem(source))?.shift())
+            .filter(
+              (checked): checked is boolean => typeof checked === "boolean"
+            );
+          return {
+            text: item.text,
+            checked:
+              states.length > 0
+                ? states.every(Boolean)
+                : hasTaskItems
+                ? false
+                : null,
+          };
+        });
+        content.push(buildListNode(entries));
+      });
 
       // Replace the selection with organized content
       // We need to ensure we're inserting at the block level, not inside a list
@@ -404,10 +563,7 @@ export default function DocPage() {
       let startListDepth = 0;
       for (let d = $from.depth; d > 0; d--) {
         const node = $from.node(d);
-        if (
-          node.type.name === "bulletList" ||
-          node.type.name === "orderedList"
-        ) {
+        if (LIST_TYPES.includes(node.type.name)) {
           startListDepth = d;
           break;
         }
@@ -417,10 +573,7 @@ export default function DocPage() {
       let endListDepth = 0;
       for (let d = $to.depth; d > 0; d--) {
         const node = $to.node(d);
-        if (
-          node.type.name === "bulletList" ||
-          node.type.name === "orderedList"
-        ) {
+        if (LIST_TYPES.includes(node.type.name)) {
           endListDepth = d;
           break;
         }
@@ -444,6 +597,7 @@ export default function DocPage() {
         .deleteRange({ from: deleteFrom, to: deleteTo })
         .insertContentAt(deleteFrom, content)
         .run();
+      organizedRef.current = { departments, items: departmentByItem };
     } catch (error) {
       console.error("Error organizing list:", error);
       alert("Failed to organize list. Please try again.");
@@ -464,6 +618,74 @@ export default function DocPage() {
     contentEditor.chain().focus().redo().run();
   };
 
+  // Handler to turn the current list into a checklist (or back)
+  const handleToggleChecklist = () => {
+    if (!contentEditor) return;
+    contentEditor.chain().focus().toggleTaskList().run();
+  };
+
+  // Handler to remove every checked item from the document
+  // One transaction, so a single undo brings them all back
+  const handleClearChecked = () => {
+    if (!contentEditor) return;
+
+    const { state } = contentEditor;
+    const ranges: { from: number; to: number }[] = [];
+    state.doc.descendants((node, pos) => {
+      if (node.type.name === "taskList") {
+        const items: { checked: boolean; size: number }[] = [];
+        node.forEach((child) => {
+          items.push({ checked: !!child.attrs.checked, size: child.nodeSize });
+        });
+
+        // A list can't be left empty, so drop it whole if everything is checked
+        if (items.every((item) => item.checked)) {
+          ranges.push({ from: pos, to: pos + node.nodeSize });
+          return false;
+        }
+
+        let childPos = pos + 1;
+        items.forEach(({ checked, size }) => {
+          if (checked) {
+            ranges.push({ from: childPos, to: childPos + size });
+          }
+          childPos += size;
+        });
+      }
+      // Don't look inside checked items - their nested lists go with them
+      return !(node.type.name === "taskItem" && node.attrs.checked);
+    });
+
+    if (ranges.length === 0) return;
+
+    // Delete from the end so earlier positions stay valid
+    const tr = state.tr;
+    ranges
+      .sort((a, b) => b.from - a.from)
+      .forEach(({ from, to }) => {
+        tr.delete(from, to);
+      });
+    contentEditor.view.dispatch(tr);
+  };
+
+  // Handler to restore a previous version into the live document
+  // Goes through the editors so the change syncs to everyone and can be undone
+  const handleRestoreVersion = (content: JSONContent, title: string) => {
+    if (!contentEditor || !titleEditor) return;
+
+    titleEditor.commands.setContent({
+      type: "doc",
+      content: [
+        {
+          type: "paragraph",
+          content: title ? [{ type: "text", text: title }] : [],
+        },
+      ],
+    });
+    contentEditor.commands.setContent(content);
+    setShowHistory(false);
+  };
+
   // Handler to remove headings and flatten all items into one list
   const handleFlattenList = () => {
     if (!contentEditor) return;
@@ -473,14 +695,18 @@ export default function DocPage() {
       const { from, to } = state.selection;
 
       // Extract all list items, ignoring headings
-      const items: string[] = [];
+      const items: ListEntry[] = [];
       const seenTexts = new Set<string>(); // Track to avoid duplicates
 
-      state.doc.nodesBetween(from, to, (node, pos) => {
-        if (node.type.name === "listItem") {
+      state.doc.nodesBetween(from, to, (node) => {
+        if (node.type.name === "listItem" || node.type.name === "taskItem") {
           const text = node.textContent.trim();
           if (text && !seenTexts.has(text)) {
-            items.push(text);
+            items.push({
+              text,
+              checked:
+                node.type.name === "taskItem" ? !!node.attrs.checked : null,
+            });
             seenTexts.add(text);
           }
         }
@@ -492,20 +718,15 @@ export default function DocPage() {
         return;
       }
 
-      // Build a single flat bullet list
+      // Build a single flat list, keeping checkboxes if there were any
+      const hasTaskItems = items.some((item) => item.checked !== null);
       const content = [
-        {
-          type: "bulletList",
-          content: items.map((item) => ({
-            type: "listItem",
-            content: [
-              {
-                type: "paragraph",
-                content: [{ type: "text", text: item }],
-              },
-            ],
-          })),
-        },
+        buildListNode(
+          items.map((item) => ({
+            ...item,
+            checked: hasTaskItems ? item.checked === true : null,
+          }))
+        ),
       ];
 
       // Find the selection range to replace
@@ -516,8 +737,7 @@ export default function DocPage() {
       for (let d = $from.depth; d > 0; d--) {
         const node = $from.node(d);
         if (
-          node.type.name === "bulletList" ||
-          node.type.name === "orderedList" ||
+          LIST_TYPES.includes(node.type.name) ||
           node.type.name === "heading"
         ) {
           blockDepth = d;
@@ -538,8 +758,7 @@ export default function DocPage() {
         for (let d = $to.depth; d > 0; d--) {
           const node = $to.node(d);
           if (
-            node.type.name === "bulletList" ||
-            node.type.name === "orderedList" ||
+            LIST_TYPES.includes(node.type.name) ||
             node.type.name === "heading"
           ) {
             endDepth = d;
@@ -580,11 +799,18 @@ export default function DocPage() {
           },
           body: JSON.stringify({ title, content }),
         });
+        metadataPendingRef.current = false;
       } catch (error) {
+        // Most likely offline; try again once we reconnect
+        metadataPendingRef.current = true;
         console.error("Failed to update document metadata:", error);
       }
     };
 
+    if (isOnline && metadataPendingRef.current) {
+      updateMetadata();
+    }
+
     // Debounce updates to avoid too many API calls
     const handleUpdate = () => {
       if (updateTimeoutRef.current) {
@@ -603,7 +829,7 @@ export default function DocPage() {
         clearTimeout(updateTimeoutRef.current);
       }
     };
-  }, [titleEditor, contentEditor, slug]);
+  }, [titleEditor, contentEditor, slug, isOnline]);
 
   return (
     <>
@@ -693,6 +919,16 @@ export default function DocPage() {
           color: #1a1a1a;
         }
 
+        .export-select {
+          appearance: none;
+        }
+
+        .header-actions {
+          display: flex;
+          align-items: center;
+          gap: 0.25rem;
+        }
+
         .presence-indicator {
           font-size: 0.8125rem;
           color: #666;
@@ -740,6 +976,36 @@ export default function DocPage() {
           font-weight: 500;
         }
 
+        .collaborator-avatars {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+        }
+
+        .collaborator-avatar {
+          width: 1.375rem;
+          height: 1.375rem;
+          border-radius: 50%;
+          color: white;
+          font-size: 0.6875rem;
+          font-weight: 600;
+          display: inline-flex;
+          align-items: center;
+          justify-content: center;
+          flex-shrink: 0;
+        }
+
+        .collaborator-avatar + .collaborator-avatar {
+          margin-left: -0.875rem;
+          box-shadow: 0 0 0 2px #fafaf8;
+        }
+
+        .offline-indicator {
+          color: #b45309;
+          font-weight: 500;
+          white-space: nowrap;
+        }
+
         .online-dot {
           width: 8px;
           height: 8px;
@@ -844,6 +1110,44 @@ export default function DocPage() {
           list-style-type: circle;
         }
 
+        .content-editor .ProseMirror ul[data-type="taskList"] {
+          list-style: none;
+          padding-left: 0.25rem;
+        }
+
+        .content-editor .ProseMirror ul[data-type="taskList"] ul[data-type="taskList"] {
+          padding-left: 1.5rem;
+        }
+
+        .content-editor .ProseMirror li[data-type="taskItem"] {
+          display: flex;
+          align-items: flex-start;
+          gap: 0.5rem;
+        }
+
+        .content-editor .ProseMirror li[data-type="taskItem"] > label {
+          flex-shrink: 0;
+          user-select: none;
+          margin-top: 0.3rem;
+        }
+
+        .content-editor .ProseMirror li[data-type="taskItem"] > label input {
+          width: 1rem;
+          height: 1rem;
+          cursor: pointer;
+          accent-color: #667eea;
+        }
+
+        .content-editor .ProseMirror li[data-type="taskItem"] > div {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .content-editor .ProseMirror li[data-type="taskItem"][data-checked="true"] > div > p {
+          color: #9ca3af;
+          text-decoration: line-through;
+        }
+
         .content-editor .ProseMirror blockquote {
           border-left: 3px solid #d1d1d1;
           padding-left: 1rem;
@@ -886,7 +1190,7 @@ export default function DocPage() {
         }
 
         /* Collaboration cursor styles */
-        .collaboration-cursor__caret {
+        .collaboration-carets__caret {
           border-left: 2px solid currentColor;
           border-right: 2px solid currentColor;
           margin-left: -1px;
@@ -896,7 +1200,7 @@ export default function DocPage() {
           word-break: normal;
         }
 
-        .collaboration-cursor__label {
+        .collaboration-carets__label {
           border-radius: 3px;
           color: #fff;
           font-size: 12px;
@@ -911,6 +1215,185 @@ export default function DocPage() {
           white-space: nowrap;
         }
 
+        /* Version history styles */
+        .version-history-overlay {
+          position: fixed;
+          inset: 0;
+          background: rgba(0, 0, 0, 0.35);
+          z-index: 20;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          padding: 1rem;
+        }
+
+        .version-history {
+          background: white;
+          border-radius: 0.75rem;
+          width: 100%;
+          max-width: 60rem;
+          max-height: 100%;
+          display: flex;
+          flex-direction: column;
+          overflow: hidden;
+          box-shadow: 0 10px 25px rgba(0, 0, 0, 0.15);
+        }
+
+        .version-history-header,
+        .version-history-footer {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          padding: 1rem 1.5rem;
+          border-bottom: 1px solid #e5e5e5;
+          flex-shrink: 0;
+        }
+
+        .version-history-header h2 {
+          font-size: 1.25rem;
+          font-weight: 600;
+          margin: 0;
+        }
+
+        .version-history-footer {
+          border-bottom: none;
+          border-top: 1px solid #e5e5e5;
+          justify-content: flex-end;
+        }
+
+        .recurrence-settings {
+          max-width: 28rem;
+        }
+
+        .recurrence-settings .version-history-footer {
+          gap: 0.5rem;
+        }
+
+        .recurrence-body {
+          padding: 1rem 1.5rem;
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+          font-size: 0.875rem;
+        }
+
+        .recurrence-help {
+          color: #666;
+          margin: 0;
+        }
+
+        .recurrence-field,
+        .recurrence-option {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+        }
+
+        .recurrence-field select,
+        .recurrence-template {
+          font-family: inherit;
+          font-size: 0.875rem;
+          padding: 0.375rem 0.5rem;
+          border: 1px solid #e5e5e5;
+          border-radius: 0.375rem;
+        }
+
+        .recurrence-template {
+          margin-left: 1.5rem;
+        }
+
+        .recurrence-hint {
+          color: #999;
+        }
+
+        .recurrence-error {
+          color: #dc2626;
+          margin: 0;
+        }
+
+        .version-history-body {
+          display: flex;
+          flex: 1;
+          min-height: 0;
+        }
+
+        @media (max-width: 768px) {
+          .version-history-body {
+            flex-direction: column;
+          }
+        }
+
+        .version-list {
+          list-style: none;
+          margin: 0;
+          padding: 0.5rem;
+          width: 16rem;
+          flex-shrink: 0;
+          overflow-y: auto;
+          border-right: 1px solid #e5e5e5;
+        }
+
+        @media (max-width: 768px) {
+          .version-list {
+            width: 100%;
+            max-height: 30vh;
+            border-right: none;
+            border-bottom: 1px solid #e5e5e5;
+          }
+        }
+
+        .version-item {
+          width: 100%;
+          text-align: left;
+          background: none;
+          border: none;
+          border-radius: 0.375rem;
+          padding: 0.625rem 0.75rem;
+          cursor: pointer;
+          font-family: inherit;
+          display: flex;
+          flex-direction: column;
+          gap: 0.125rem;
+        }
+
+        .version-item:hover {
+          background: #f5f5f0;
+        }
+
+        .version-item.selected {
+          background: #eef2ff;
+        }
+
+        .version-time {
+          font-size: 0.875rem;
+          font-weight: 500;
+          color: #1a1a1a;
+        }
+
+        .version-authors {
+          font-size: 0.75rem;
+          color: #666;
+        }
+
+        .version-preview {
+          flex: 1;
+          overflow-y: auto;
+          padding: 1rem 1.5rem;
+        }
+
+        .version-preview-title {
+          font-size: 1.75rem;
+          font-weight: 600;
+          margin-bottom: 1rem;
+          color: #1a1a1a;
+        }
+
+        .version-empty {
+          padding: 1rem;
+          color: #666;
+          font-size: 0.875rem;
+        }
+
         /* Command bar styles - negative margin pulls it up to overlay the padding */
         .command-bar-container {
           width: 100%;
@@ -1020,14 +1503,61 @@ export default function DocPage() {
       <div className="page-wrapper">
         <div className="container">
           <div className="header">
-            <button className="back-button" onClick={() => navigate("/docs")}>
-              ← Back to documents
-            </button>
+            <div className="header-actions">
+              <button className="back-button" onClick={() => navigate("/docs")}>
+                ← Back to documents
+              </button>
+              <button
+                className="back-button"
+                onClick={() => setShowHistory(true)}
+                disabled={!isSynced || !isOnline}
+              >
+                🕘 History
+              </button>
+              <button
+                className="back-button"
+                onClick={() => setShowRecurrence(true)}
+                disabled={!isOnline}
+              >
+                🔁{" "}
+                {recurrence
+                  ? `Resets ${WEEKDAYS[recurrence.weekday]}s`
+                  : "Repeat weekly"}
+              </button>
+              <select
+                className="back-button export-select"
+                value=""
+                onChange={(e) => {
+                  // The export is served as an attachment, so this downloads
+                  // it without leaving the page
+                  window.location.href = getApiUrl(
+                    `/api/documents/${encodeURIComponent(slug)}/export?format=${
+                      e.target.value
+                    }`
+                  );
+                }}
+                disabled={!isOnline}
+                aria-label="Export document"
+              >
+                <option value="" disabled>
+                  ⬇ Export
+                </option>
+                <option value="md">Markdown (.md)</option>
+                <option value="txt">Plain text (.txt)</option>
+                <option value="html">Web page (.html)</option>
+              </select>
+            </div>
 
             <div className="presence-indicator">
               <span>👋 {userName}</span>
               <div className="presence-divider"></div>
-              <WhosHere room={documentId} />
+              {isOnline ? (
+                <CollaboratorAvatars awareness={provider?.awareness ?? null} />
+              ) : (
+                <span className="offline-indicator">
+                  Offline – changes saved locally
+                </span>
+              )}
               <div className="presence-divider"></div>
               <Form
                 method="post"
@@ -1131,10 +1661,59 @@ export default function DocPage() {
                     📋 Flatten
                   </button>
                 </div>
+                <div className="command-bar-group">
+                  <button
+                    onMouseDown={(e) => {
+                      // Prevent editor from losing focus on click
+                      e.preventDefault();
+                    }}
+                    onClick={handleToggleChecklist}
+                    className="command-bar-button secondary"
+                    disabled={!contentEditor}
+                    title="Turn the current list into a checklist"
+                  >
+                    ☑️ Checklist
+                  </button>
+                  <button
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                    }}
+                    onClick={handleClearChecked}
+                    className="command-bar-button secondary"
+                    disabled={checkedCount === 0}
+                    title={
+                      checkedCount > 0
+                        ? `Remove ${checkedCount} checked item${
+                            checkedCount === 1 ? "" : "s"
+                          }`
+                        : "No checked items"
+                    }
+                  >
+                    🧹 Clear checked
+                  </button>
+                </div>
               </div>
             </div>
           </div>
         )}
+
+        {showHistory && (
+          <VersionHistory
+            slug={slug}
+            documentId={documentId}
+            onRestore={handleRestoreVersion}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
+        {showRecurrence && (
+          <RecurrenceSettingsPanel
+            slug={slug}
+            recurrence={recurrence}
+            onChange={setRecurrence}
+            onClose={() => setShowRecurrence(false)}
+          />
+        )}
       </div>
     </>
   );
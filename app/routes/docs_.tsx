@@ -5,9 +5,13 @@ import type {
   LinksFunction,
 } from "partymix";
 import { useLoaderData, Form, useNavigate, useFetcher } from "@remix-run/react";
-import { authenticateLoader } from "~/utils/session.server";
+import { authenticateLoader, requireAuth } from "~/utils/session.server";
+import { getDocumentsServer, getYjsServer } from "~/utils/storage.server";
 import { getApiUrl } from "~/utils/api.client";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import DocumentSearchResults from "~/components/document-search-results";
+import { getPlainText, parseMarkdown } from "~/../../party/document-format";
+import type { DocumentResult } from "~/../../party/document-store";
 
 export const links: LinksFunction = () => [
   { rel: "stylesheet", href: "/styles/docs.css" },
@@ -23,6 +27,9 @@ export const meta: MetaFunction = () => {
   ];
 };
 
+// Markdown files bigger than this are almost certainly not notes or lists
+const MAX_IMPORT_BYTES = 1024 * 1024;
+
 type Document = {
   id: string;
   slug: string;
@@ -31,6 +38,7 @@ type Document = {
   createdAt: number;
   updatedAt: number;
   archived: boolean;
+  template?: boolean;
 };
 
 export const loader: LoaderFunction = async function (args) {
@@ -39,39 +47,133 @@ export const loader: LoaderFunction = async function (args) {
 };
 
 export const action: ActionFunction = async function ({ request, context }) {
-  const env = context.env as { IS_LOCAL_DEV?: string };
+  await requireAuth(request, context.env, "/docs");
   const formData = await request.formData();
   const action = formData.get("action");
 
+  // Generate a random slug
+  const slug = `doc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
   if (action === "create") {
-    // Generate a random slug
-    const slug = `doc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    try {
+      const documentsServer = await getDocumentsServer(context.env);
+      const templateSlug = formData.get("template");
+      let result: DocumentResult;
+
+      if (typeof templateSlug === "string" && templateSlug) {
+        const template = await documentsServer.getDocumentBySlug(templateSlug);
+        if (!template) {
+          return Response.json(
+            { error: "Failed to create document: Template not found" },
+            { status: 404 }
+          );
+        }
+        result = await documentsServer.duplicateDocument(
+          templateSlug,
+          slug,
+          template.title
+        );
+      } else {
+        result = await documentsServer.createDocument(slug, "Untitled");
+      }
+
+      if ("error" in result) {
+        return Response.json(
+          { error: `Failed to create document: ${result.error}` },
+          { status: result.status }
+        );
+      }
+
+      return Response.json({ slug });
+    } catch (error) {
+      console.error("Error creating document:", error);
+      return Response.json(
+        { error: "Failed to create document" },
+        { status: 500 }
+      );
+    }
+  }
 
+  if (action === "duplicate") {
     try {
-      // Call Remix API route - use environment variable to detect local dev
-      const isLocal = env.IS_LOCAL_DEV === "true";
-      const host = isLocal ? "http://localhost:8787" : "http://schiller.town";
-
-      const response = await fetch(`${host}/api/documents`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ slug, title: "Untitled" }),
-      });
+      const documentsServer = await getDocumentsServer(context.env);
+      const sourceSlug = String(formData.get("slug"));
+      const source = await documentsServer.getDocumentBySlug(sourceSlug);
+      if (!source) {
+        return Response.json(
+          { error: "Failed to duplicate document: Document not found" },
+          { status: 404 }
+        );
+      }
 
-      if (response.ok) {
-        return Response.json({ slug });
+      const result = await documentsServer.duplicateDocument(
+        sourceSlug,
+        slug,
+        `${source.title || "Untitled"} (copy)`
+      );
+
+      if ("error" in result) {
+        return Response.json(
+          { error: `Failed to duplicate document: ${result.error}` },
+          { status: result.status }
+        );
       }
 
+      return Response.json({ slug });
+    } catch (error) {
+      console.error("Error duplicating document:", error);
+      return Response.json(
+        { error: "Failed to duplicate document" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (action === "import") {
+    const file = formData.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      return Response.json(
+        { error: "Choose a Markdown file to import" },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
       return Response.json(
-        { error: `Failed to create document: ${response.status}` },
-        { status: response.status }
+        { error: "That file is too big to import (the limit is 1 MB)" },
+        { status: 400 }
       );
+    }
+
+    try {
+      const parsed = parseMarkdown(await file.text());
+      // Without a "# Title" line, name the document after the file
+      const title =
+        parsed.title || file.name.replace(/\.[^.]*$/, "").trim() || "Untitled";
+
+      const documentsServer = await getDocumentsServer(context.env);
+      const result = await documentsServer.createDocument(slug, title);
+
+      if ("error" in result) {
+        return Response.json(
+          { error: `Failed to import document: ${result.error}` },
+          { status: result.status }
+        );
+      }
+
+      const yjsServer = await getYjsServer(context.env, result.document.id);
+      await yjsServer.setContent(parsed.content, title);
+
+      // Fill in the plain-text copy the list previews and search use; the
+      // editor keeps it up to date from here on
+      await documentsServer.updateDocument(slug, {
+        content: getPlainText(parsed.content),
+      });
+
+      return Response.json({ slug });
     } catch (error) {
-      console.error("Error creating document:", error);
+      console.error("Error importing document:", error);
       return Response.json(
-        { error: "Failed to create document" },
+        { error: "Failed to import document" },
         { status: 500 }
       );
     }
@@ -90,6 +192,8 @@ export default function Index() {
   const [editingSlug, setEditingSlug] = useState<string | null>(null);
   const [newSlug, setNewSlug] = useState("");
   const [slugError, setSlugError] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const fetchDocuments = async () => {
@@ -127,7 +231,7 @@ export default function Index() {
       fetcher.state === "idle"
     ) {
       const errorData = fetcher.data as { error: string };
-      alert(`Failed to create document: ${errorData.error}`);
+      alert(errorData.error);
     }
   }, [fetcher.data, fetcher.state, navigate]);
 
@@ -137,6 +241,21 @@ export default function Index() {
     fetcher.submit(formData, { method: "post" });
   };
 
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so choosing the same file again still imports it
+    e.target.value = "";
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append("action", "import");
+    formData.append("file", file);
+    fetcher.submit(formData, {
+      method: "post",
+      encType: "multipart/form-data",
+    });
+  };
+
   const getPreviewText = (content: string) => {
     if (!content) return "No content yet...";
     // Strip HTML tags and get first 100 characters
@@ -238,6 +357,48 @@ export default function Index() {
     }
   };
 
+  const handleDuplicate = (slug: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const formData = new FormData();
+    formData.append("action", "duplicate");
+    formData.append("slug", slug);
+    fetcher.submit(formData, { method: "post" });
+  };
+
+  const handleCreateFromTemplate = (slug: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const formData = new FormData();
+    formData.append("action", "create");
+    formData.append("template", slug);
+    fetcher.submit(formData, { method: "post" });
+  };
+
+  const handleToggleTemplate = async (doc: Document, e: React.MouseEvent) => {
+    e.stopPropagation();
+
+    try {
+      // Call Remix API route
+      const response = await fetch(
+        getApiUrl(`/api/documents/${encodeURIComponent(doc.slug)}/template`),
+        {
+          method: doc.template ? "DELETE" : "POST",
+        }
+      );
+
+      if (response.ok) {
+        const updated = (await response.json()) as Document;
+        setDocuments((docs) =>
+          docs.map((d) => (d.id === updated.id ? updated : d))
+        );
+      } else {
+        alert("Failed to update templates");
+      }
+    } catch (error) {
+      console.error("Error updating template:", error);
+      alert("Failed to update templates");
+    }
+  };
+
   const handleArchive = async (slug: string, e: React.MouseEvent) => {
     e.stopPropagation();
 
@@ -266,6 +427,9 @@ export default function Index() {
     }
   };
 
+  const templates = documents.filter((doc) => doc.template);
+  const otherDocuments = documents.filter((doc) => !doc.template);
+
   return (
     <>
       <div className="docs-container">
@@ -291,13 +455,74 @@ export default function Index() {
             <a href="/archived-docs" className="archived-link">
               📦 View archived documents
             </a>
+            <a href="/grocery-categories" className="archived-link">
+              🏷️ Grocery categories
+            </a>
           </div>
+          <input
+            type="search"
+            className="search-input"
+            placeholder="🔍 Search all documents"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") {
+                setSearchQuery("");
+              }
+            }}
+          />
         </div>
 
-        {loading ? (
+        {searchQuery.trim() ? (
+          <DocumentSearchResults query={searchQuery.trim()} />
+        ) : loading ? (
           <div className="loading">Loading documents...</div>
         ) : (
           <>
+            {templates.length > 0 && (
+              <div className="templates-section">
+                <h3 className="templates-title">📋 Templates</h3>
+                <div className="docs-grid">
+                  {templates.map((doc) => (
+                    <div
+                      key={doc.id}
+                      className="doc-card template-card"
+                      onClick={() => navigate(`/docs/${doc.slug}`)}
+                      title="Edit template"
+                    >
+                      <div className="doc-card-header">
+                        <div className="doc-icon">📋</div>
+                        <div className="doc-card-content">
+                          <div className="doc-title">
+                            {doc.title || "Untitled"}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="doc-preview">
+                        {getPreviewText(doc.content)}
+                      </div>
+                      <div className="doc-footer">
+                        <button
+                          className="use-template-button"
+                          onClick={(e) => handleCreateFromTemplate(doc.slug, e)}
+                          disabled={fetcher.state !== "idle"}
+                        >
+                          + New from template
+                        </button>
+                        <button
+                          className="archive-button"
+                          onClick={(e) => handleToggleTemplate(doc, e)}
+                          title="Stop using this document as a template"
+                        >
+                          Remove template
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="docs-grid">
               <div
                 className="doc-card create-card"
@@ -313,7 +538,26 @@ export default function Index() {
                 </div>
               </div>
 
-              {documents.map((doc) => (
+              <div
+                className="doc-card create-card import-card"
+                onClick={() => importInputRef.current?.click()}
+                style={{
+                  opacity: fetcher.state !== "idle" ? 0.7 : 1,
+                  pointerEvents: fetcher.state !== "idle" ? "none" : "auto",
+                }}
+              >
+                <div className="create-icon">⬆</div>
+                <div className="create-text">Import Markdown</div>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".md,.markdown,.txt,text/markdown,text/plain"
+                  onChange={handleImport}
+                  hidden
+                />
+              </div>
+
+              {otherDocuments.map((doc) => (
                 <div
                   key={doc.id}
                   className="doc-card"
@@ -385,19 +629,35 @@ export default function Index() {
                   </div>
                   <div className="doc-footer">
                     <span>Edited {formatDate(doc.updatedAt)}</span>
-                    <button
-                      className="archive-button"
-                      onClick={(e) => handleArchive(doc.slug, e)}
-                      title="Archive document"
-                    >
-                      📦 Archive
-                    </button>
+                    <div className="doc-actions">
+                      <button
+                        className="archive-button"
+                        onClick={(e) => handleDuplicate(doc.slug, e)}
+                        title="Make a copy of this document"
+                      >
+                        ⧉ Duplicate
+                      </button>
+                      <button
+                        className="archive-button"
+                        onClick={(e) => handleToggleTemplate(doc, e)}
+                        title="Offer this document as a starting point for new ones"
+                      >
+                        📋 Use as template
+                      </button>
+                      <button
+                        className="archive-button"
+                        onClick={(e) => handleArchive(doc.slug, e)}
+                        title="Archive document"
+                      >
+                        📦 Archive
+                      </button>
+                    </div>
                   </div>
                 </div>
               ))}
             </div>
 
-            {documents.length === 0 && (
+            {otherDocuments.length === 0 && (
               <div className="empty-state">
                 <div className="empty-state-icon">📝</div>
                 <div className="empty-state-text">No documents yet</div>
@@ -0,0 +1,414 @@
+import type {
+  ActionFunction,
+  LinksFunction,
+  LoaderFunction,
+  MetaFunction,
+} from "partymix";
+import {
+  Form,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "@remix-run/react";
+import { authenticateLoader } from "~/utils/session.server";
+import { getCategorizerServer } from "~/utils/storage.server";
+import type { CategoryOverride } from "~/../../party/override-store";
+import type { Department } from "~/../../party/grocery-categorizer";
+
+export const links: LinksFunction = () => [
+  { rel: "stylesheet", href: "/styles/grocery-categories.css" },
+];
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "Grocery Categories" },
+    {
+      name: "description",
+      content: "Set up grocery departments and review what's been learned",
+    },
+  ];
+};
+
+export const loader: LoaderFunction = async function (args) {
+  const userName = await authenticateLoader(args);
+  const categorizer = await getCategorizerServer(args.context.env);
+  const [overrides, departments] = await Promise.all([
+    categorizer.listOverrides(),
+    categorizer.getDepartments(),
+  ]);
+  return Response.json({ userName, overrides, departments });
+};
+
+// Keywords are edited as one comma- or line-separated list
+const parseKeywords = (value: FormDataEntryValue | null) =>
+  typeof value === "string" ? value.split(/[,\n]/) : [];
+
+export const action: ActionFunction = async function (args) {
+  const userName = await authenticateLoader(args);
+  const categorizer = await getCategorizerServer(args.context.env);
+  const formData = await args.request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "save-department") {
+    const name = formData.get("name");
+    const originalName = formData.get("originalName");
+    if (typeof name !== "string") {
+      return Response.json(
+        { error: "Department name is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await categorizer.saveDepartment(
+      typeof originalName === "string" ? originalName : null,
+      {
+        name,
+        keywords: parseKeywords(formData.get("keywords")),
+        store: formData.get("store") === "on",
+      }
+    );
+    if ("error" in result) {
+      return Response.json({ error: result.error }, { status: result.status });
+    }
+    return Response.json({ message: `Saved ${name.trim()}` });
+  }
+
+  if (intent === "move-department" || intent === "delete-department") {
+    const name = formData.get("name");
+    if (typeof name !== "string") {
+      return Response.json({ error: "Department required" }, { status: 400 });
+    }
+
+    const result =
+      intent === "move-department"
+        ? await categorizer.moveDepartment(
+            name,
+            formData.get("direction") === "up" ? -1 : 1
+          )
+        : await categorizer.deleteDepartment(name);
+    if ("error" in result) {
+      return Response.json({ error: result.error }, { status: result.status });
+    }
+    return intent === "move-department"
+      ? Response.json({})
+      : Response.json({ message: `Removed ${name}` });
+  }
+
+  if (intent === "reset-departments") {
+    await categorizer.resetDepartments();
+    return Response.json({ message: "Departments reset to the defaults" });
+  }
+
+  const item = formData.get("item");
+  if (typeof item !== "string") {
+    return Response.json({ error: "Item required" }, { status: 400 });
+  }
+
+  if (intent === "add" || intent === "update") {
+    const department = formData.get("department");
+    if (typeof department !== "string") {
+      return Response.json({ error: "Department required" }, { status: 400 });
+    }
+
+    const override = await categorizer.setOverride(item, department, userName);
+    if (!override) {
+      return Response.json(
+        { error: "Item and department can't be blank" },
+        { status: 400 }
+      );
+    }
+    return Response.json({
+      message: `${override.item} goes under ${override.department}`,
+    });
+  }
+
+  if (intent === "remove") {
+    if (!(await categorizer.deleteOverride(item))) {
+      return Response.json({ error: "Item not found" }, { status: 404 });
+    }
+    return Response.json({ message: `Forgot ${item}` });
+  }
+
+  return Response.json({ error: "Invalid action" }, { status: 400 });
+};
+
+export default function GroceryCategories() {
+  const data = useLoaderData<typeof loader>();
+  const { userName, overrides, departments } = data as unknown as {
+    userName: string;
+    overrides: CategoryOverride[];
+    departments: Department[];
+  };
+  const actionData = useActionData<typeof action>() as
+    | { error?: string; message?: string }
+    | undefined;
+  const navigation = useNavigation();
+  const busy = navigation.state !== "idle";
+
+  return (
+    <div className="categories-container">
+      <div className="categories-header">
+        <div>
+          <a href="/docs" className="back-link">
+            ← Documents
+          </a>
+          <h1 className="categories-title">🏷️ Grocery Categories</h1>
+          <p className="categories-help">
+            Group Items sorts a list under these headings, in this order.
+          </p>
+        </div>
+        <div className="user-info">
+          <span>👋 {userName}</span>
+          <Form method="post" action="/logout">
+            <button type="submit" className="logout-button">
+              Logout
+            </button>
+          </Form>
+        </div>
+      </div>
+
+      {actionData?.error && (
+        <div className="categories-message error">{actionData.error}</div>
+      )}
+      {actionData?.message && (
+        <div className="categories-message">{actionData.message}</div>
+      )}
+
+      {/* Suggestions for the department inputs; any name is allowed */}
+      <datalist id="departments">
+        {departments.map((department) => (
+          <option key={department.name} value={department.name} />
+        ))}
+      </datalist>
+
+      <div className="categories-section-header">
+        <h2 className="categories-section-title">Departments and stores</h2>
+        <Form
+          method="post"
+          onSubmit={(e) => {
+            if (
+              !confirm(
+                "Reset every department and keyword to the defaults? Learned items are kept."
+              )
+            ) {
+              e.preventDefault();
+            }
+          }}
+        >
+          <input type="hidden" name="intent" value="reset-departments" />
+          <button type="submit" className="category-button" disabled={busy}>
+            Reset to defaults
+          </button>
+        </Form>
+      </div>
+
+      <ul className="categories-list">
+        {departments.map((department, index) => (
+          <li key={department.name} className="department-row">
+            <div className="department-summary">
+              <span className="category-item">
+                {department.name}
+                <span className="category-meta">
+                  {department.store ? "Store · " : ""}
+                  {department.keywords.length} keywords
+                </span>
+              </span>
+              <Form method="post" className="category-form">
+                <input type="hidden" name="intent" value="move-department" />
+                <input type="hidden" name="name" value={department.name} />
+                <button
+                  type="submit"
+                  name="direction"
+                  value="up"
+                  className="category-button"
+                  disabled={busy || index === 0}
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="submit"
+                  name="direction"
+                  value="down"
+                  className="category-button"
+                  disabled={busy || index === departments.length - 1}
+                  title="Move down"
+                >
+                  ↓
+                </button>
+              </Form>
+              <Form
+                method="post"
+                onSubmit={(e) => {
+                  if (!confirm(`Remove ${department.name}?`)) {
+                    e.preventDefault();
+                  }
+                }}
+              >
+                <input type="hidden" name="intent" value="delete-department" />
+                <input type="hidden" name="name" value={department.name} />
+                <button
+                  type="submit"
+                  className="category-button danger"
+                  disabled={busy}
+                >
+                  Remove
+                </button>
+              </Form>
+            </div>
+            <details className="department-details">
+              <summary>Edit</summary>
+              <DepartmentForm
+                key={JSON.stringify(department)}
+                department={department}
+                busy={busy}
+              />
+            </details>
+          </li>
+        ))}
+      </ul>
+
+      <div className="category-add-form">
+        <h2 className="category-add-title">Add a department or store</h2>
+        <DepartmentForm busy={busy} />
+      </div>
+
+      <div className="categories-section-header">
+        <h2 className="categories-section-title">Learned items</h2>
+      </div>
+      <p className="categories-help categories-section-help">
+        When you move an item under a different heading after Group Items,
+        it&apos;s remembered here and used the next time the list is grouped.
+      </p>
+
+      {overrides.length === 0 ? (
+        <p className="categories-empty">
+          Nothing learned yet. Group a grocery list and move an item to the
+          heading where it belongs.
+        </p>
+      ) : (
+        <ul className="categories-list">
+          {overrides.map((override) => (
+            <li key={override.item} className="category-row">
+              <div className="category-item">
+                {override.item}
+                <span className="category-meta">
+                  by {override.userName},{" "}
+                  {new Date(override.updatedAt).toLocaleDateString()}
+                </span>
+              </div>
+              <Form
+                method="post"
+                className="category-form"
+                key={`${override.item}-${override.department}`}
+              >
+                <input type="hidden" name="intent" value="update" />
+                <input type="hidden" name="item" value={override.item} />
+                <input
+                  type="text"
+                  name="department"
+                  className="category-input"
+                  list="departments"
+                  defaultValue={override.department}
+                  required
+                />
+                <button
+                  type="submit"
+                  className="category-button"
+                  disabled={busy}
+                >
+                  Save
+                </button>
+              </Form>
+              <Form method="post">
+                <input type="hidden" name="intent" value="remove" />
+                <input type="hidden" name="item" value={override.item} />
+                <button
+                  type="submit"
+                  className="category-button danger"
+                  disabled={busy}
+                >
+                  Forget
+                </button>
+              </Form>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Form method="post" className="category-form category-add-form">
+        <h2 className="category-add-title">Teach an item</h2>
+        <input type="hidden" name="intent" value="add" />
+        <input
+          type="text"
+          name="item"
+          className="category-input"
+          placeholder="Item, e.g. oat milk"
+          autoComplete="off"
+          required
+        />
+        <input
+          type="text"
+          name="department"
+          className="category-input"
+          placeholder="Department"
+          list="departments"
+          autoComplete="off"
+          required
+        />
+        <button
+          type="submit"
+          className="category-button primary"
+          disabled={busy}
+        >
+          Add
+        </button>
+      </Form>
+    </div>
+  );
+}
+
+// Name, keywords and store flag for a new or existing department
+function DepartmentForm({
+  department,
+  busy,
+}: {
+  department?: Department;
+  busy: boolean;
+}) {
+  return (
+    <Form method="post" className="category-form department-form">
+      <input type="hidden" name="intent" value="save-department" />
+      {department && (
+        <input type="hidden" name="originalName" value={department.name} />
+      )}
+      <input
+        type="text"
+        name="name"
+        className="category-input"
+        placeholder="Name, e.g. Farmers Market"
+        defaultValue={department?.name}
+        autoComplete="off"
+        required
+      />
+      <label className="department-store-toggle">
+        <input
+          type="checkbox"
+          name="store"
+          defaultChecked={department?.store}
+        />{" "}
+        Separate store
+      </label>
+      <textarea
+        name="keywords"
+        className="category-input department-keywords"
+        placeholder="Keywords, separated by commas"
+        defaultValue={department?.keywords.join(", ")}
+        rows={department ? 4 : 2}
+      />
+      <button type="submit" className="category-button primary" disabled={busy}>
+        {department ? "Save" : "Add"}
+      </button>
+    </Form>
+  );
+}
@@ -6,9 +6,10 @@ import {
   getUserName,
   verifyPassword,
 } from "~/utils/session.server";
+import { getUsersServer } from "~/utils/users.server";
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  const userName = await getUserName(request, context.env.SESSION_SECRET);
+  const userName = await getUserName(request, context.env);
   if (userName) {
     // Already logged in, redirect to next page or home
     const url = new URL(request.url);
@@ -42,12 +43,31 @@ export async function action({ request, context }: ActionFunctionArgs) {
     return json({ error: "Please enter the password" }, { status: 400 });
   }
 
-  if (!verifyPassword(password, context.env.HOUSEHOLD_PASSWORD)) {
-    return json({ error: "Incorrect password" }, { status: 401 });
+  const usersServer = await getUsersServer(context.env);
+
+  // Bootstrap: while there are no accounts yet, the household password
+  // creates the first admin account with the entered name
+  if (verifyPassword(password, context.env.HOUSEHOLD_PASSWORD)) {
+    const result = await usersServer.createFirstAdmin(name, password);
+    if (result && "error" in result) {
+      return json({ error: result.error }, { status: 400 });
+    }
+    if (result) {
+      return createUserSession(
+        result.user.id,
+        next.toString(),
+        context.env.SESSION_SECRET
+      );
+    }
+  }
+
+  const user = await usersServer.verifyCredentials(name, password);
+  if (!user) {
+    return json({ error: "Incorrect name or password" }, { status: 401 });
   }
 
   return createUserSession(
-    name.trim(),
+    user.id,
     next.toString(),
     context.env.SESSION_SECRET
   );
@@ -170,9 +190,7 @@ export default function Login() {
         <div className="login-card">
           <div className="household-emoji">🏠</div>
           <h1 className="login-title">Household Notes</h1>
-          <p className="login-subtitle">
-            Enter the family password to continue
-          </p>
+          <p className="login-subtitle">Sign in with your household account</p>
 
           {actionData?.error && (
             <div className="error-message">{actionData.error}</div>
@@ -191,7 +209,7 @@ export default function Login() {
                 name="name"
                 className="form-input"
                 placeholder="Enter your name"
-                autoComplete="name"
+                autoComplete="username"
                 autoFocus
                 required
               />
@@ -199,14 +217,14 @@ export default function Login() {
 
             <div className="form-group">
               <label htmlFor="password" className="form-label">
-                Family Password
+                Password
               </label>
               <input
                 type="password"
                 id="password"
                 name="password"
                 className="form-input"
-                placeholder="Enter the shared password"
+                placeholder="Enter your password"
                 autoComplete="current-password"
                 required
               />
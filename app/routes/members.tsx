@@ -0,0 +1,224 @@
+import type {
+  ActionFunction,
+  LinksFunction,
+  LoaderFunction,
+  MetaFunction,
+} from "partymix";
+import {
+  Form,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "@remix-run/react";
+import { authenticateAdmin } from "~/utils/session.server";
+import { getUsersServer } from "~/utils/users.server";
+import type { User } from "~/../../party/users";
+
+export const links: LinksFunction = () => [
+  { rel: "stylesheet", href: "/styles/members.css" },
+];
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "Household Members" },
+    { name: "description", content: "Manage household member accounts" },
+  ];
+};
+
+export const loader: LoaderFunction = async function (args) {
+  const admin = await authenticateAdmin(args);
+  const usersServer = await getUsersServer(args.context.env);
+  const members = await usersServer.listUsers();
+  return Response.json({
+    userName: admin.name,
+    currentUserId: admin.id,
+    members,
+  });
+};
+
+export const action: ActionFunction = async function (args) {
+  const admin = await authenticateAdmin(args);
+  const usersServer = await getUsersServer(args.context.env);
+  const formData = await args.request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "add") {
+    const name = formData.get("name");
+    const password = formData.get("password");
+    if (typeof name !== "string" || typeof password !== "string") {
+      return Response.json(
+        { error: "Name and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await usersServer.createUser(
+      name,
+      password,
+      formData.get("isAdmin") === "on"
+    );
+    if ("error" in result) {
+      return Response.json({ error: result.error }, { status: 400 });
+    }
+    return Response.json({ message: `Added ${result.user.name}` });
+  }
+
+  if (intent === "remove") {
+    const id = formData.get("id");
+    if (typeof id !== "string") {
+      return Response.json({ error: "Member id required" }, { status: 400 });
+    }
+    if (id === admin.id) {
+      return Response.json(
+        { error: "You can't remove your own account" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await usersServer.deleteUser(id))) {
+      return Response.json({ error: "Member not found" }, { status: 404 });
+    }
+    return Response.json({ message: "Member removed" });
+  }
+
+  if (intent === "reset-password") {
+    const id = formData.get("id");
+    const password = formData.get("password");
+    if (typeof id !== "string" || typeof password !== "string") {
+      return Response.json(
+        { error: "Member id and password are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await usersServer.setPassword(id, password))) {
+      return Response.json(
+        { error: "Password must be at least 8 characters" },
+        { status: 400 }
+      );
+    }
+    return Response.json({ message: "Password updated" });
+  }
+
+  return Response.json({ error: "Invalid action" }, { status: 400 });
+};
+
+export default function Members() {
+  const data = useLoaderData<typeof loader>();
+  const { userName, currentUserId, members } = data as unknown as {
+    userName: string;
+    currentUserId: string;
+    members: User[];
+  };
+  const actionData = useActionData<typeof action>() as
+    | { error?: string; message?: string }
+    | undefined;
+  const navigation = useNavigation();
+  const busy = navigation.state !== "idle";
+
+  return (
+    <div className="members-container">
+      <div className="members-header">
+        <div>
+          <a href="/" className="back-link">
+            ← Home
+          </a>
+          <h1 className="members-title">👥 Household Members</h1>
+        </div>
+        <div className="user-info">
+          <span>👋 {userName}</span>
+          <Form method="post" action="/logout">
+            <button type="submit" className="logout-button">
+              Logout
+            </button>
+          </Form>
+        </div>
+      </div>
+
+      {actionData?.error && (
+        <div className="members-message error">{actionData.error}</div>
+      )}
+      {actionData?.message && (
+        <div className="members-message">{actionData.message}</div>
+      )}
+
+      <ul className="members-list">
+        {members.map((member) => (
+          <li key={member.id} className="member-row">
+            <div className="member-name">
+              {member.name}
+              {member.isAdmin && <span className="member-badge">admin</span>}
+              {member.id === currentUserId && (
+                <span className="member-badge you">you</span>
+              )}
+            </div>
+            <Form method="post" className="member-password-form">
+              <input type="hidden" name="intent" value="reset-password" />
+              <input type="hidden" name="id" value={member.id} />
+              <input
+                type="password"
+                name="password"
+                className="member-input"
+                placeholder="New password"
+                autoComplete="new-password"
+                minLength={8}
+                required
+              />
+              <button type="submit" className="member-button" disabled={busy}>
+                Set password
+              </button>
+            </Form>
+            {member.id !== currentUserId && (
+              <Form
+                method="post"
+                onSubmit={(e) => {
+                  if (!confirm(`Remove ${member.name}?`)) {
+                    e.preventDefault();
+                  }
+                }}
+              >
+                <input type="hidden" name="intent" value="remove" />
+                <input type="hidden" name="id" value={member.id} />
+                <button
+                  type="submit"
+                  className="member-button danger"
+                  disabled={busy}
+                >
+                  Remove
+                </button>
+              </Form>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <Form method="post" className="member-add-form">
+        <h2 className="member-add-title">Add a member</h2>
+        <input type="hidden" name="intent" value="add" />
+        <input
+          type="text"
+          name="name"
+          className="member-input"
+          placeholder="Name"
+          autoComplete="off"
+          required
+        />
+        <input
+          type="password"
+          name="password"
+          className="member-input"
+          placeholder="Password (8+ characters)"
+          autoComplete="new-password"
+          minLength={8}
+          required
+        />
+        <label className="member-admin-toggle">
+          <input type="checkbox" name="isAdmin" /> Admin
+        </label>
+        <button type="submit" className="member-button primary" disabled={busy}>
+          Add member
+        </button>
+      </Form>
+    </div>
+  );
+}
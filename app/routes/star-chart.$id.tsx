@@ -0,0 +1,501 @@
+import type { LoaderFunction, MetaFunction, LinksFunction } from "partymix";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import { authenticateLoader } from "~/utils/session.server";
+import { getApiUrl } from "~/utils/api.client";
+import usePartySocket from "partysocket/react";
+import StarChartHistory from "~/components/star-chart-history";
+import StarChartStats from "~/components/star-chart-stats";
+import StarChartRulesFields, {
+  rulesFromFormData,
+} from "~/components/star-chart-rules-fields";
+import { useEffect, useState } from "react";
+import { normalizeChart } from "~/../../party/star-chart-store";
+import type { StarChart, StarChartMessage } from "~/../../party/star-chart";
+
+export const links: LinksFunction = () => [
+  { rel: "stylesheet", href: "/styles/star-chart.css" },
+];
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "Star Chart" },
+    { name: "description", content: "Reward chart" },
+  ];
+};
+
+export const loader: LoaderFunction = async function (args) {
+  const userName = await authenticateLoader(args);
+  const chartId = args.params.id;
+
+  if (!chartId) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  return Response.json({ userName, chartId });
+};
+
+export default function StarChartPage() {
+  const data = useLoaderData<typeof loader>();
+  const { chartId } = data as unknown as { chartId: string };
+  const fetcher = useFetcher();
+  const [chart, setChart] = useState<StarChart | null>(null);
+  const [totalSquares, setTotalSquares] = useState(0);
+  const [dryCount, setDryCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [settingsError, setSettingsError] = useState("");
+
+  const apiPath = `/api/star-chart/${encodeURIComponent(chartId)}`;
+
+  // Fetch initial chart state
+  useEffect(() => {
+    const fetchChart = async () => {
+      try {
+        const response = await fetch(getApiUrl(apiPath));
+
+        if (response.ok) {
+          const chartData: StarChart = await response.json();
+          setChart(chartData);
+          setTotalSquares(chartData.totalSquares);
+          setDryCount(chartData.dryCount);
+        }
+      } catch (error) {
+        console.error("Failed to fetch star chart:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchChart();
+  }, [apiPath]);
+
+  // Apply changes made on other devices as soon as the server broadcasts them
+  // Use localhost in development, otherwise use the current origin
+  const host =
+    typeof window !== "undefined"
+      ? window.location.hostname === "localhost" ||
+        window.location.hostname === "0.0.0.0" ||
+        window.location.hostname === "127.0.0.1"
+        ? "localhost:8787"
+        : window.location.origin
+      : undefined;
+
+  usePartySocket({
+    host,
+    party: "star-chart-server",
+    room: "default",
+    query: { chart: chartId },
+    onMessage(evt) {
+      const message = JSON.parse(evt.data) as StarChartMessage;
+      if (message.type === "chart" && message.chart.id === chartId) {
+        const updatedChart = normalizeChart(message.chart, chartId);
+        setChart(updatedChart);
+        setTotalSquares(updatedChart.totalSquares);
+        setDryCount(updatedChart.dryCount);
+      }
+    },
+  });
+
+  // Show the chart's title in the browser tab once it has loaded
+  useEffect(() => {
+    if (chart?.title) {
+      document.title = chart.title;
+    }
+  }, [chart?.title]);
+
+  // Refresh chart data after actions
+  useEffect(() => {
+    if (fetcher.data && fetcher.state === "idle") {
+      if ("error" in (fetcher.data as object)) {
+        alert((fetcher.data as { error: string }).error);
+        return;
+      }
+
+      const updatedChart = fetcher.data as StarChart;
+      setChart(updatedChart);
+      setTotalSquares(updatedChart.totalSquares);
+      setDryCount(updatedChart.dryCount);
+    }
+  }, [fetcher.data, fetcher.state]);
+
+  const handleAdd = (amount: number) => {
+    fetcher.submit(JSON.stringify({ action: "add", amount }), {
+      method: "post",
+      action: apiPath,
+      encType: "application/json",
+    });
+  };
+
+  const handleSubtract = () => {
+    fetcher.submit(JSON.stringify({ action: "subtract" }), {
+      method: "post",
+      action: apiPath,
+      encType: "application/json",
+    });
+  };
+
+  const handleExchange = () => {
+    if (!chart || !Array.isArray(chart.exchanges)) return;
+
+    const totalExchanged = chart.exchanges.reduce(
+      (sum, ex) => sum + ex.squaresExchanged,
+      0
+    );
+    const activeSquares = totalSquares - totalExchanged;
+    const { rules } = chart;
+
+    if (activeSquares < rules.exchangeCost) {
+      alert(
+        `Need at least ${rules.exchangeCost} squares to exchange for ${rules.exchangeRewardName}!`
+      );
+      return;
+    }
+
+    if (
+      confirm(
+        `Exchange ${rules.exchangeCost} squares for ${formatReward(
+          rules.exchangeRewardAmount
+        )} of ${
+          rules.exchangeRewardName
+        }?\n\nYou have ${activeSquares} active squares.`
+      )
+    ) {
+      fetcher.submit(JSON.stringify({ action: "exchange" }), {
+        method: "post",
+        action: apiPath,
+        encType: "application/json",
+      });
+    }
+  };
+
+  const handleDryDay = () => {
+    fetcher.submit(JSON.stringify({ action: "dry-day" }), {
+      method: "post",
+      action: apiPath,
+      encType: "application/json",
+    });
+  };
+
+  const handleDryReward = () => {
+    if (!chart || dryCount < chart.rules.streakThreshold) return;
+    if (
+      confirm(
+        `Claim ${chart.rules.streakRewardName} for ${chart.rules.streakThreshold} ${chart.rules.streakName} days?`
+      )
+    ) {
+      fetcher.submit(JSON.stringify({ action: "dry-reward" }), {
+        method: "post",
+        action: apiPath,
+        encType: "application/json",
+      });
+    }
+  };
+
+  const handleUndo = (eventId: string) => {
+    fetcher.submit(JSON.stringify({ action: "undo", eventId }), {
+      method: "post",
+      action: apiPath,
+      encType: "application/json",
+    });
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    setSavingSettings(true);
+    setSettingsError("");
+
+    try {
+      const response = await fetch(getApiUrl(apiPath), {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: formData.get("title"),
+          rules: rulesFromFormData(formData),
+        }),
+      });
+
+      const result = (await response.json()) as StarChart | { error: string };
+      if ("error" in result) {
+        setSettingsError(result.error);
+        return;
+      }
+
+      setChart(result);
+      setShowSettings(false);
+    } catch (error) {
+      console.error("Error saving chart settings:", error);
+      setSettingsError("Failed to save settings");
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  // Calculate which squares are exchanged
+  const isSquareExchanged = (squareNum: number): boolean => {
+    if (!chart || !Array.isArray(chart.exchanges)) return false;
+    return chart.exchanges.some(
+      (ex) => squareNum >= ex.squareRange[0] && squareNum <= ex.squareRange[1]
+    );
+  };
+
+  // Calculate active squares for button states
+  const totalExchanged =
+    chart && Array.isArray(chart.exchanges)
+      ? chart.exchanges.reduce((sum, ex) => sum + ex.squaresExchanged, 0)
+      : 0;
+  const activeSquares = totalSquares - totalExchanged;
+
+  // Each row holds one exchange's worth of squares
+  const rowSize = chart?.rules.exchangeCost ?? 20;
+  const streakThreshold = chart?.rules.streakThreshold ?? 20;
+  const formatReward = (amount: number) =>
+    chart?.rules.exchangeRewardUnit
+      ? `${amount} ${chart.rules.exchangeRewardUnit}`
+      : `${amount}`;
+
+  // Calculate number of rows to display (at least show 1 row)
+  const numRows = Math.max(1, Math.ceil(totalSquares / rowSize));
+
+  if (loading) {
+    return (
+      <div className="chart-container">
+        <div className="loading">Loading star chart...</div>
+      </div>
+    );
+  }
+
+  if (!chart) {
+    return (
+      <div className="chart-container">
+        <a href="/star-chart" className="back-link">
+          ← All charts
+        </a>
+        <div className="loading">Chart not found</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="chart-container">
+        <a href="/star-chart" className="back-link">
+          ← All charts
+        </a>
+
+        <div className="chart-wrapper">
+          <div className="chart-header">
+            <h1 className="chart-title">🎉 {chart?.title}</h1>
+            <p className="chart-subtitle">
+              Earn squares, trade {chart?.rules.exchangeCost} for{" "}
+              {chart?.rules.exchangeRewardName}!
+            </p>
+            <button
+              className="settings-toggle"
+              onClick={() => {
+                setShowSettings(!showSettings);
+                setSettingsError("");
+              }}
+            >
+              ⚙️ {showSettings ? "Close settings" : "Settings"}
+            </button>
+          </div>
+
+          {showSettings && chart && (
+            <form className="chart-form" onSubmit={handleSaveSettings}>
+              <label className="rules-field">
+                <span>Title</span>
+                <input
+                  type="text"
+                  name="title"
+                  defaultValue={chart.title}
+                  required
+                />
+              </label>
+              <StarChartRulesFields rules={chart.rules} />
+              {settingsError && (
+                <p className="chart-form-error">{settingsError}</p>
+              )}
+              <div className="chart-form-buttons">
+                <button
+                  type="submit"
+                  className="form-button"
+                  disabled={savingSettings}
+                >
+                  {savingSettings ? "Saving..." : "Save settings"}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div className="stats-row">
+            <div className="stat-item">
+              <span className="stat-label">Available Squares</span>
+              <span className="stat-value active">{activeSquares}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">
+                Available {chart?.rules.exchangeRewardName}
+              </span>
+              <span className="stat-value">
+                {formatReward(
+                  Math.floor(activeSquares / rowSize) *
+                    (chart?.rules.exchangeRewardAmount ?? 0)
+                )}
+              </span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">Used Today</span>
+              <span className="stat-value">
+                {formatReward(
+                  chart && Array.isArray(chart.exchanges)
+                    ? chart.exchanges.length * chart.rules.exchangeRewardAmount
+                    : 0
+                )}
+              </span>
+            </div>
+          </div>
+
+          <div
+            className="grid-container"
+            style={{ "--row-size": rowSize } as React.CSSProperties}
+          >
+            {Array.from({ length: numRows }, (_, rowIndex) => {
+              const rowStartSquare = rowIndex * rowSize + 1;
+              const rowEndSquare = rowIndex * rowSize + rowSize;
+              const rowSquares = Array.from(
+                { length: rowSize },
+                (_, i) => rowStartSquare + i
+              );
+              const allExchanged = rowSquares.every((sq) =>
+                isSquareExchanged(sq)
+              );
+              const allActiveAndFull =
+                rowEndSquare <= totalSquares &&
+                rowSquares.every((sq) => !isSquareExchanged(sq));
+
+              return (
+                <div key={rowIndex} className="grid-row">
+                  <div className="squares-row">
+                    {Array.from({ length: rowSize }, (_, colIndex) => {
+                      const squareNum = rowIndex * rowSize + colIndex + 1;
+                      const isExchanged = isSquareExchanged(squareNum);
+                      const isActive =
+                        squareNum <= totalSquares && !isExchanged;
+
+                      return (
+                        <div
+                          key={colIndex}
+                          className={`square ${
+                            isExchanged
+                              ? "exchanged"
+                              : isActive
+                              ? "active"
+                              : "empty"
+                          }`}
+                        >
+                          {isActive && "■"}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <span className="row-star">
+                    {allExchanged ? "" : allActiveAndFull ? "⭐" : "☆"}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="buttons-container">
+            <button
+              className="action-button btn-add-one"
+              onClick={() => handleAdd(1)}
+              disabled={fetcher.state !== "idle"}
+            >
+              +1
+            </button>
+            <button
+              className="action-button btn-add-ten"
+              onClick={() => handleAdd(10)}
+              disabled={fetcher.state !== "idle"}
+            >
+              +10
+            </button>
+            <button
+              className="action-button btn-subtract"
+              onClick={handleSubtract}
+              disabled={fetcher.state !== "idle" || activeSquares <= 0}
+            >
+              -1
+            </button>
+            <button
+              className="action-button btn-exchange"
+              onClick={handleExchange}
+              disabled={fetcher.state !== "idle" || activeSquares < rowSize}
+            >
+              ⭐ {chart?.rules.exchangeRewardName}
+            </button>
+          </div>
+
+          <div className="dry-section">
+            <h2 className="dry-title">{chart?.rules.streakName}</h2>
+            <div className="dry-progress-track">
+              <div
+                className="dry-progress-fill"
+                style={{
+                  width: `${Math.min(
+                    100,
+                    (dryCount / streakThreshold) * 100
+                  )}%`,
+                }}
+              />
+            </div>
+            <p className="dry-count">
+              {dryCount} / {streakThreshold}
+            </p>
+            <div className="dry-buttons">
+              <button
+                className="action-button btn-dry-day"
+                onClick={handleDryDay}
+                disabled={fetcher.state !== "idle"}
+              >
+                {chart?.rules.streakName}!
+              </button>
+              <button
+                className="action-button btn-dry-reward"
+                onClick={handleDryReward}
+                disabled={
+                  fetcher.state !== "idle" || dryCount < streakThreshold
+                }
+              >
+                {chart?.rules.streakRewardName}
+              </button>
+            </div>
+          </div>
+
+          <div className="stats-section">
+            <div className="history-header">
+              <h2 className="history-title">📈 Stats</h2>
+              <button
+                className="history-undo-last"
+                onClick={() => setShowStats(!showStats)}
+              >
+                {showStats ? "Hide" : "Show"}
+              </button>
+            </div>
+            {showStats && <StarChartStats chart={chart} />}
+          </div>
+
+          <StarChartHistory
+            chart={chart}
+            onUndo={handleUndo}
+            disabled={fetcher.state !== "idle"}
+          />
+        </div>
+      </div>
+    </>
+  );
+}
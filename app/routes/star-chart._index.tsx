@@ -0,0 +1,171 @@
+import type { LoaderFunction, MetaFunction, LinksFunction } from "partymix";
+import { useLoaderData, useNavigate } from "@remix-run/react";
+import { authenticateLoader } from "~/utils/session.server";
+import { getApiUrl } from "~/utils/api.client";
+import StarChartRulesFields, {
+  rulesFromFormData,
+} from "~/components/star-chart-rules-fields";
+import { useEffect, useState } from "react";
+import { DEFAULT_STAR_CHART_RULES } from "~/../../party/star-chart-store";
+import type { StarChart } from "~/../../party/star-chart";
+
+export const links: LinksFunction = () => [
+  { rel: "stylesheet", href: "/styles/star-chart.css" },
+];
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "Star Charts" },
+    { name: "description", content: "Reward charts for kids and habits" },
+  ];
+};
+
+export const loader: LoaderFunction = async function (args) {
+  const userName = await authenticateLoader(args);
+  return Response.json({ userName });
+};
+
+export default function StarChartsPage() {
+  useLoaderData<typeof loader>(); // Ensure auth is checked
+  const navigate = useNavigate();
+  const [charts, setCharts] = useState<StarChart[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchCharts = async () => {
+      try {
+        const response = await fetch(getApiUrl("/api/star-chart"));
+
+        if (response.ok) {
+          setCharts((await response.json()) as StarChart[]);
+        }
+      } catch (error) {
+        console.error("Failed to fetch star charts:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCharts();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    setCreating(true);
+    setError("");
+
+    try {
+      const response = await fetch(getApiUrl("/api/star-chart"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: formData.get("title"),
+          rules: rulesFromFormData(formData),
+        }),
+      });
+
+      const result = (await response.json()) as StarChart | { error: string };
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+
+      navigate(`/star-chart/${encodeURIComponent(result.id)}`);
+    } catch (error) {
+      console.error("Error creating star chart:", error);
+      setError("Failed to create chart");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="chart-container">
+        <div className="loading">Loading star charts...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="chart-container">
+      <a href="/" className="back-link">
+        ← Back to Home
+      </a>
+
+      <div className="chart-wrapper">
+        <div className="chart-header">
+          <h1 className="chart-title">⭐ Star Charts</h1>
+          <p className="chart-subtitle">Pick a chart, or start a new one</p>
+        </div>
+
+        <ul className="chart-list">
+          {charts.map((chart) => {
+            const exchanged = chart.exchanges.reduce(
+              (sum, ex) => sum + ex.squaresExchanged,
+              0
+            );
+            return (
+              <li key={chart.id}>
+                <a
+                  href={`/star-chart/${encodeURIComponent(chart.id)}`}
+                  className="chart-list-item"
+                >
+                  <span className="chart-list-title">{chart.title}</span>
+                  <span className="chart-list-meta">
+                    {chart.totalSquares - exchanged} squares · {chart.dryCount}/
+                    {chart.rules.streakThreshold} {chart.rules.streakName}
+                  </span>
+                </a>
+              </li>
+            );
+          })}
+          {charts.length === 0 && (
+            <li className="chart-list-empty">No charts yet</li>
+          )}
+        </ul>
+
+        {showCreate ? (
+          <form className="chart-form" onSubmit={handleCreate}>
+            <h2 className="chart-form-title">New chart</h2>
+            <label className="rules-field">
+              <span>Title</span>
+              <input
+                type="text"
+                name="title"
+                placeholder="Nora's Reading Chart"
+                required
+                autoFocus
+              />
+            </label>
+            <StarChartRulesFields rules={DEFAULT_STAR_CHART_RULES} />
+            {error && <p className="chart-form-error">{error}</p>}
+            <div className="chart-form-buttons">
+              <button
+                type="button"
+                className="form-button secondary"
+                onClick={() => setShowCreate(false)}
+              >
+                Cancel
+              </button>
+              <button type="submit" className="form-button" disabled={creating}>
+                {creating ? "Creating..." : "Create chart"}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            className="action-button btn-add-one chart-create-button"
+            onClick={() => setShowCreate(true)}
+          >
+            + New chart
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
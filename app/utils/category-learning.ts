@@ -0,0 +1,37 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+const LIST_TYPES = ["bulletList", "orderedList", "taskList"];
+
+// Items differing only in case or spacing share one learned override. Lives
+// here rather than in party/grocery-categorizer.ts so the editor can use it
+// without bundling the Anthropic SDK.
+export function normalizeItem(item: string): string {
+  return item.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Find the heading each top-level list item sits under, the way Group Items
+ * lays out a grocery list
+ * @param doc The editor document
+ * @returns Heading text keyed by normalized item text. Items before the first
+ * heading are left out.
+ */
+export function getItemHeadings(doc: ProseMirrorNode): Map<string, string> {
+  const headings = new Map<string, string>();
+  let heading: string | null = null;
+
+  doc.forEach((node) => {
+    if (node.type.name === "heading") {
+      heading = node.textContent.trim() || null;
+    } else if (heading && LIST_TYPES.includes(node.type.name)) {
+      node.forEach((item) => {
+        const text = normalizeItem(item.textContent);
+        if (text) {
+          headings.set(text, heading!);
+        }
+      });
+    }
+  });
+
+  return headings;
+}
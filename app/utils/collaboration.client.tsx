@@ -1,15 +1,23 @@
 import Collaboration from "@tiptap/extension-collaboration";
+import CollaborationCaret from "@tiptap/extension-collaboration-caret";
 import YPartyKitProvider from "y-partykit/provider";
+import { IndexeddbPersistence } from "y-indexeddb";
 import * as Y from "yjs";
 import * as awarenessProtocol from "y-protocols/awareness.js";
 
 let ydoc: Y.Doc | null = null;
 let provider: YPartyKitProvider | null = null;
+let persistence: IndexeddbPersistence | null = null;
 let awareness: awarenessProtocol.Awareness | null = null;
 let currentRoom: string | null = null;
 
 // Cleanup function to properly destroy existing connections
 function cleanup() {
+  if (persistence) {
+    // Only closes the database; the saved document stays for next time
+    persistence.destroy();
+    persistence = null;
+  }
   if (provider) {
     provider.destroy();
     provider = null;
@@ -33,6 +41,21 @@ function getYDoc() {
   return ydoc;
 }
 
+// Offline copies used to be saved as doc-{room}, and room already starts with
+// "doc-". Merge any such copy into the document, which saves it under the new
+// name, then delete it so edits made offline before the rename aren't lost.
+async function mergeLegacyCopy(room: string, doc: Y.Doc) {
+  const name = `doc-${room}`;
+  // Firefox before 126 can't list databases, so just open it (and delete it)
+  const databases = await indexedDB.databases?.();
+  if (databases && !databases.some((database) => database.name === name)) {
+    return;
+  }
+  const legacy = new IndexeddbPersistence(name, doc);
+  await legacy.whenSynced;
+  await legacy.clearData();
+}
+
 function getProvider(room: string) {
   if (typeof window === "undefined") return null;
 
@@ -60,10 +83,56 @@ function getProvider(room: string) {
       awareness,
       party: "yjs-server",
     });
+    // Keep a copy of each document in the browser so it can be opened and
+    // edited without a connection. Yjs merges the edits when we reconnect.
+    persistence = new IndexeddbPersistence(room, doc);
+    mergeLegacyCopy(room, doc).catch((error) => {
+      console.error("Failed to merge the old offline copy:", error);
+    });
     currentRoom = room;
   }
   return provider;
 }
 
-export { Collaboration, getProvider, getYDoc, cleanup };
+// The IndexedDB copy of the current room's document, created by getProvider
+function getPersistence() {
+  return persistence;
+}
+
+// The user info each client shares over awareness, shown on their cursor
+// and in the document's avatar list
+export type CollaboratorUser = {
+  name: string;
+  color: string;
+};
+
+const CURSOR_COLORS = [
+  "#f97316",
+  "#8b5cf6",
+  "#10b981",
+  "#3b82f6",
+  "#ec4899",
+  "#eab308",
+  "#14b8a6",
+  "#ef4444",
+];
+
+// Pick a color from the name so each person looks the same on every device
+function getUserColor(name: string): string {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+}
+
+export {
+  Collaboration,
+  CollaborationCaret,
+  getProvider,
+  getPersistence,
+  getYDoc,
+  getUserColor,
+  cleanup,
+};
 export { ydoc, provider };
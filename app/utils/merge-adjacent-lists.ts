@@ -4,7 +4,7 @@ import { Fragment } from "@tiptap/pm/model";
 
 /**
  * Extension that automatically merges adjacent lists of the same type.
- * When two bullet lists or ordered lists are next to each other with no content between them,
+ * When two bullet, ordered or task lists are next to each other with no content between them,
  * they will be merged into a single list.
  */
 export const MergeAdjacentLists = Extension.create({
@@ -34,7 +34,8 @@ export const MergeAdjacentLists = Extension.create({
             // Check if this node is a list type
             if (
               node.type.name === "bulletList" ||
-              node.type.name === "orderedList"
+              node.type.name === "orderedList" ||
+              node.type.name === "taskList"
             ) {
               // Check if parent exists and if there's a next sibling
               if (parent && index < parent.childCount - 1) {
@@ -0,0 +1,45 @@
+// Client-side service worker registration (see public/sw.js)
+
+type RemixManifest = {
+  url: string;
+  entry: { module: string; imports: string[] };
+  routes: Record<
+    string,
+    { module: string; imports?: string[]; css?: string[] }
+  >;
+};
+
+// Every JS and CSS file in the current Remix build, from the manifest Remix
+// puts on the page, so the service worker can cache routes not yet visited
+function getBuildUrls(): string[] {
+  const manifest = (window as unknown as { __remixManifest?: RemixManifest })
+    .__remixManifest;
+  if (!manifest) return [];
+
+  const urls = new Set<string>([
+    manifest.url,
+    manifest.entry.module,
+    ...manifest.entry.imports,
+  ]);
+  for (const route of Object.values(manifest.routes)) {
+    urls.add(route.module);
+    route.imports?.forEach((url) => urls.add(url));
+    route.css?.forEach((url) => urls.add(url));
+  }
+  return Array.from(urls);
+}
+
+export async function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return;
+
+  try {
+    await navigator.serviceWorker.register("/sw.js");
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({
+      type: "precache",
+      urls: getBuildUrls(),
+    });
+  } catch (error) {
+    console.error("Service worker registration failed:", error);
+  }
+}
@@ -1,8 +1,11 @@
 import { createCookieSessionStorage, redirect } from "partymix";
 import type { LoaderFunctionArgs } from "partymix";
+import type { User } from "~/../../party/users";
+import { getUsersServer } from "./users.server";
+import type { UsersEnv } from "./users.server";
 
 // Type for environment variables with session support
-export type SessionEnv = {
+export type SessionEnv = UsersEnv & {
   SESSION_SECRET: string;
   HOUSEHOLD_PASSWORD: string;
   [key: string]: any;
@@ -23,15 +26,16 @@ export function getSessionStorage(sessionSecret: string) {
   });
 }
 
+// Stores the stable user id from UsersServer; the display name is looked up on
+// every request so renamed or removed members take effect immediately
 export async function createUserSession(
-  name: string,
+  userId: string,
   redirectTo: string,
   sessionSecret: string
 ) {
   const sessionStorage = getSessionStorage(sessionSecret);
   const session = await sessionStorage.getSession();
-  session.set("userName", name);
-  session.set("authenticated", true);
+  session.set("userId", userId);
   return redirect(redirectTo, {
     headers: {
       "Set-Cookie": await sessionStorage.commitSession(session),
@@ -44,27 +48,47 @@ export async function getUserSession(request: Request, sessionSecret: string) {
   return sessionStorage.getSession(request.headers.get("Cookie"));
 }
 
+export async function getUser(
+  request: Request,
+  env: SessionEnv
+): Promise<User | null> {
+  const session = await getUserSession(request, env.SESSION_SECRET);
+  const userId = session.get("userId");
+  if (typeof userId !== "string") {
+    return null;
+  }
+  const usersServer = await getUsersServer(env);
+  return usersServer.getUser(userId);
+}
+
 export async function getUserName(
   request: Request,
-  sessionSecret: string
+  env: SessionEnv
 ): Promise<string | null> {
-  const session = await getUserSession(request, sessionSecret);
-  const authenticated = session.get("authenticated");
-  const userName = session.get("userName");
-  return authenticated && userName ? userName : null;
+  const user = await getUser(request, env);
+  return user ? user.name : null;
 }
 
-export async function requireAuth(
+export async function requireUser(
   request: Request,
-  sessionSecret: string,
+  env: SessionEnv,
   redirectTo: string = "/"
-) {
-  const userName = await getUserName(request, sessionSecret);
-  if (!userName) {
+): Promise<User> {
+  const user = await getUser(request, env);
+  if (!user) {
     const searchParams = new URLSearchParams([["next", redirectTo]]);
     throw redirect(`/login?${searchParams}`);
   }
-  return userName;
+  return user;
+}
+
+export async function requireAuth(
+  request: Request,
+  env: SessionEnv,
+  redirectTo: string = "/"
+) {
+  const user = await requireUser(request, env, redirectTo);
+  return user.name;
 }
 
 export async function logout(request: Request, sessionSecret: string) {
@@ -77,6 +101,7 @@ export async function logout(request: Request, sessionSecret: string) {
   });
 }
 
+// Only used to bootstrap the first admin account while the user store is empty
 export function verifyPassword(
   password: string,
   householdPassword: string
@@ -96,11 +121,7 @@ export function createAuthenticatedLoader<T extends Record<string, any>>(
   return async (args: LoaderFunctionArgs) => {
     const { request, context } = args;
     const url = new URL(request.url);
-    const userName = await requireAuth(
-      request,
-      context.env.SESSION_SECRET,
-      url.pathname
-    );
+    const userName = await requireAuth(request, context.env, url.pathname);
     return loaderFn({ ...args, userName });
   };
 }
@@ -110,10 +131,36 @@ export function createAuthenticatedLoader<T extends Record<string, any>>(
 export async function authenticateLoader(args: LoaderFunctionArgs) {
   const { request } = args;
   const url = new URL(request.url);
-  const userName = await requireAuth(
-    request,
-    args.context.env.SESSION_SECRET,
-    url.pathname
-  );
+  const userName = await requireAuth(request, args.context.env, url.pathname);
+  return userName;
+}
+
+// Like authenticateLoader, but returns the full user record
+export async function authenticateUser(args: LoaderFunctionArgs) {
+  const { request } = args;
+  const url = new URL(request.url);
+  return requireUser(request, args.context.env, url.pathname);
+}
+
+// Like authenticateUser, but also requires the member to be an admin
+export async function authenticateAdmin(args: LoaderFunctionArgs) {
+  const user = await authenticateUser(args);
+  if (!user.isAdmin) {
+    throw new Response("Forbidden", { status: 403 });
+  }
+  return user;
+}
+
+// Auth guard for resource routes under /api and for PartyServer storage endpoints.
+// Unlike requireAuth, this throws a JSON 401 instead of redirecting to /login,
+// since these are called with fetch() rather than navigated to.
+export async function requireApiAuth(
+  request: Request,
+  env: SessionEnv
+): Promise<string> {
+  const userName = await getUserName(request, env);
+  if (!userName) {
+    throw Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
   return userName;
 }
@@ -0,0 +1,137 @@
+// Relative rather than ~/../../party so the party tests can load this file
+import type { StarChart, StarChartRules } from "../../party/star-chart";
+import { DEFAULT_STAR_CHART_RULES } from "../../party/star-chart-store";
+import { addDays, daysBetween, getPacificDate } from "../../party/dates";
+
+// Upper bound for counts in the rules, so a typo can't create a 10,000-square row
+const MAX_RULE_COUNT = 100;
+
+/**
+ * Validate rules submitted from the create or settings form.
+ * Returns the cleaned rules, or an error message.
+ */
+export function parseRules(
+  input: Partial<Record<keyof StarChartRules, unknown>>
+): { rules: StarChartRules } | { error: string } {
+  const counts = {
+    exchangeCost: "Squares per exchange",
+    exchangeRewardAmount: "Reward amount",
+    streakThreshold: "Streak goal",
+  } as const;
+  const names = {
+    exchangeRewardName: "Reward name",
+    exchangeRewardUnit: "Reward unit",
+    streakName: "Streak name",
+    streakRewardName: "Streak reward name",
+  } as const;
+
+  const rules = { ...DEFAULT_STAR_CHART_RULES };
+
+  for (const [key, label] of Object.entries(counts)) {
+    const value = Number(input[key as keyof typeof counts]);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_RULE_COUNT) {
+      return {
+        error: `${label} must be a whole number from 1 to ${MAX_RULE_COUNT}`,
+      };
+    }
+    rules[key as keyof typeof counts] = value;
+  }
+
+  for (const [key, label] of Object.entries(names)) {
+    const value = input[key as keyof typeof names];
+    // The unit may be blank ("3 stickers" has none)
+    const required = key !== "exchangeRewardUnit";
+    if (typeof value !== "string" || (required && !value.trim())) {
+      return { error: `${label} is required` };
+    }
+    rules[key as keyof typeof names] = value.trim();
+  }
+
+  return { rules };
+}
+
+// Turn a chart title into a URL-safe id, e.g. "Nora's Reading" -> "noras-reading"
+export function slugifyChartTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export type StarChartStats = {
+  days: { date: string; earned: number }[]; // Oldest first
+  weeks: { start: string; earned: number }[]; // Monday-start, oldest first
+  longestStreak: number; // Consecutive days with the streak marked
+  currentStreak: number;
+  averageDaysBetweenExchanges: number | null; // Null until two exchanges
+};
+
+/**
+ * Summarize a chart's daily totals for the stats panel: squares earned over
+ * the last `dayCount` days and `weekCount` weeks, streak lengths, and how
+ * often rewards are exchanged.
+ */
+export function computeStats(
+  chart: StarChart,
+  now = Date.now(),
+  dayCount = 14,
+  weekCount = 8
+): StarChartStats {
+  const today = getPacificDate(now);
+  const earnedOn = (date: string) => chart.daily[date]?.earned ?? 0;
+
+  const days = [];
+  for (let i = dayCount - 1; i >= 0; i--) {
+    const date = addDays(today, -i);
+    days.push({ date, earned: earnedOn(date) });
+  }
+
+  // getUTCDay() is 0 for Sunday; weeks start on Monday
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const thisWeek = addDays(today, -((weekday + 6) % 7));
+  const weeks = [];
+  for (let i = weekCount - 1; i >= 0; i--) {
+    const start = addDays(thisWeek, -7 * i);
+    let earned = 0;
+    for (let d = 0; d < 7; d++) {
+      earned += earnedOn(addDays(start, d));
+    }
+    weeks.push({ start, earned });
+  }
+
+  const dates = Object.keys(chart.daily).sort();
+
+  let longestStreak = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const date of dates) {
+    if (chart.daily[date].streakDays <= 0) continue;
+    run = previous && daysBetween(previous, date) === 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previous = date;
+  }
+
+  // A streak still counts as current if today just hasn't been marked yet
+  let currentStreak = 0;
+  if (previous && daysBetween(previous, today) <= 1) {
+    currentStreak = run;
+  }
+
+  const exchangeDates = dates.flatMap((date) =>
+    Array<string>(chart.daily[date].exchanges).fill(date)
+  );
+  const averageDaysBetweenExchanges =
+    exchangeDates.length < 2
+      ? null
+      : daysBetween(exchangeDates[0], exchangeDates[exchangeDates.length - 1]) /
+        (exchangeDates.length - 1);
+
+  return {
+    days,
+    weeks,
+    longestStreak,
+    currentStreak,
+    averageDaysBetweenExchanges,
+  };
+}
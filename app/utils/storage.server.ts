@@ -0,0 +1,54 @@
+import { getServerByName } from "partyserver";
+import type { CategorizerServer } from "~/../../party/categorizer";
+import type { DocumentsServer } from "~/../../party/documents";
+import type { StarChartServer } from "~/../../party/star-chart";
+import type { YjsServer } from "~/../../party/yjs";
+
+export type StorageEnv = {
+  DocumentsServer: DurableObjectNamespace<DocumentsServer>;
+  StarChartServer: DurableObjectNamespace<StarChartServer>;
+  YjsServer: DurableObjectNamespace<YjsServer>;
+  CategorizerServer: DurableObjectNamespace<CategorizerServer>;
+};
+
+// The API routes reach storage by calling these servers' methods directly
+// over Durable Object RPC, the same way users.server.ts reaches UsersServer.
+// They check the session themselves first, so no cookie is passed along.
+
+export type DocumentsStorage = DurableObjectStub<DocumentsServer>;
+
+export type StarChartStorage = DurableObjectStub<StarChartServer>;
+
+export type YjsStorage = DurableObjectStub<YjsServer>;
+
+// Metadata for every document lives in a single DocumentsServer instance
+export async function getDocumentsServer(
+  env: StorageEnv
+): Promise<DocumentsStorage> {
+  return getServerByName(env.DocumentsServer, "default");
+}
+
+// As do all star charts and their history
+export async function getStarChartServer(
+  env: StorageEnv
+): Promise<StarChartStorage> {
+  return getServerByName(env.StarChartServer, "default");
+}
+
+// Each document's Yjs content and versions are in a room named by its id
+export async function getYjsServer(
+  env: StorageEnv,
+  documentId: string
+): Promise<YjsStorage> {
+  return getServerByName(env.YjsServer, documentId);
+}
+
+export type CategorizerStorage = DurableObjectStub<CategorizerServer>;
+
+// The grocery departments, and what the categorizer has learned, are shared
+// by the whole household
+export async function getCategorizerServer(
+  env: StorageEnv
+): Promise<CategorizerStorage> {
+  return getServerByName(env.CategorizerServer, "default");
+}
@@ -0,0 +1,13 @@
+import { getServerByName } from "partyserver";
+import type { UsersServer } from "~/../../party/users";
+
+export type UsersEnv = {
+  UsersServer: DurableObjectNamespace<UsersServer>;
+};
+
+// All household members live in a single UsersServer instance.
+// It is called over Durable Object RPC rather than HTTP, so the user store is
+// never exposed through /parties/*.
+export function getUsersServer(env: UsersEnv) {
+  return getServerByName(env.UsersServer, "default");
+}
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for tracking who edited a document
+ * Run with: node --import tsx --test party/authors.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import * as Y from "yjs";
+import { AuthorTracker } from "./authors";
+
+// An edit as y-partykit applies it, with the sending connection as the origin
+function edit(doc: Y.Doc, name: string | null) {
+  const connection = { state: name ? { name } : null };
+  doc.transact(() => {
+    doc.getText("content").insert(0, "x");
+  }, connection);
+}
+
+test("edits are attributed to whoever sent them", () => {
+  const authors = new AuthorTracker();
+  const doc = new Y.Doc();
+  authors.listen(doc);
+  authors.listen(doc);
+
+  edit(doc, "mom");
+  edit(doc, "dad");
+  edit(doc, "mom");
+  edit(doc, null);
+
+  assert.deepStrictEqual(authors.take(), ["dad", "mom"]);
+  assert.deepStrictEqual(authors.take(), []);
+});
+
+test("edits are still attributed after every client has left and one reconnects", () => {
+  const authors = new AuthorTracker();
+  const first = new Y.Doc();
+  authors.listen(first);
+  edit(first, "mom");
+  assert.deepStrictEqual(authors.take(), ["mom"]);
+
+  // y-partykit destroys the doc when the last client leaves, and loads a new
+  // one for the next connection
+  first.destroy();
+  const second = new Y.Doc();
+  authors.listen(second);
+  edit(second, "dad");
+
+  assert.deepStrictEqual(authors.take(), ["dad"]);
+});
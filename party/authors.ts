@@ -0,0 +1,37 @@
+import type { Connection } from "partyserver";
+import type * as Y from "yjs";
+
+export type AuthorState = {
+  name: string;
+};
+
+/**
+ * Tracks who has edited a document since its last version was written.
+ * y-partykit destroys the Y.Doc once the last client leaves and creates a new
+ * one for the next, so each doc it hands out is listened to, once.
+ */
+export class AuthorTracker {
+  private pending = new Set<string>();
+  private docs = new WeakSet<Y.Doc>();
+
+  // y-partykit applies updates with the sending connection as the transaction origin
+  listen(doc: Y.Doc): void {
+    if (this.docs.has(doc)) {
+      return;
+    }
+    this.docs.add(doc);
+    doc.on("update", (_update: Uint8Array, origin: unknown) => {
+      const state = (origin as Connection<AuthorState> | null)?.state;
+      if (state?.name) {
+        this.pending.add(state.name);
+      }
+    });
+  }
+
+  // Everyone who edited since the last call, sorted
+  take(): string[] {
+    const authors = Array.from(this.pending).sort();
+    this.pending.clear();
+    return authors;
+  }
+}
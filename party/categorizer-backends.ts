@@ -0,0 +1,261 @@
+/**
+ * Language model backends for the grocery categorizer
+ * Each backend asks a model to sort item names into departments and returns
+ * its answer as-is; organizeGroceriesByDepartment checks the answer, and
+ * categorizes anything left over by keyword. Which backend is used is set by
+ * the CATEGORIZER_BACKEND environment variable (see getCategorizerBackend).
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { Department } from "./grocery-categorizer";
+
+export type CategorizerBackend = {
+  name: string;
+  /**
+   * Sort item names into departments
+   * @param items Grocery item names
+   * @param departments The departments to choose from, in display order
+   * @param signal Aborted when the caller stops waiting
+   * @returns The model's answer, which should look like
+   * { departments: [{ department, items }] } but is checked by the caller
+   */
+  categorize(
+    items: string[],
+    departments: Department[],
+    signal: AbortSignal
+  ): Promise<unknown>;
+};
+
+export type CategorizerEnv = {
+  CATEGORIZER_BACKEND?: string; // "anthropic", "openai" or "keywords"
+  ANTHROPIC_API_KEY?: string;
+  OPENAI_BASE_URL?: string; // e.g. http://homeserver:11434/v1 for Ollama
+  OPENAI_MODEL?: string;
+  OPENAI_API_KEY?: string; // Not needed for a local Ollama
+};
+
+// The answer is requested under this tool or function name
+const ORGANIZE_TOOL = "organize_groceries";
+
+// JSON Schema for an answer, limited to the given department names
+function answerSchema(departmentNames: string[]) {
+  return {
+    type: "object" as const,
+    properties: {
+      departments: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            department: { type: "string", enum: departmentNames },
+            items: {
+              type: "array",
+              items: { type: "string" },
+              description: "Grocery items, copied exactly as given",
+            },
+          },
+          required: ["department", "items"],
+        },
+      },
+    },
+    required: ["departments"],
+  };
+}
+
+// Every department name a model may answer with, Other included
+export const getDepartmentNames = (departments: Department[]) => [
+  ...departments.map(({ name }) => name),
+  "Other",
+];
+
+/**
+ * The request both model backends send
+ * @param items Grocery item names
+ * @param departments The departments to choose from, in display order
+ * @param answerFormat How the model should give its answer
+ * @returns The prompt
+ */
+function buildPrompt(
+  items: string[],
+  departments: Department[],
+  answerFormat: string
+): string {
+  // Stores are told apart by what the household buys there, so list their
+  // keywords; the usual sections explain themselves
+  const sections = departments.filter((department) => !department.store);
+  const stores = departments.filter((department) => department.store);
+  const storeList = stores
+    .map(({ name, keywords }) =>
+      keywords.length > 0 ? `- ${name}: ${keywords.join(", ")}` : `- ${name}`
+    )
+    .join("\n");
+
+  return `You are a helpful assistant that organizes grocery lists by store department.
+
+Sort the following grocery items into these grocery store departments: ${sections
+    .map(({ name }) => name)
+    .join(", ")}.${
+    stores.length > 0
+      ? `
+
+Items usually bought at a specific store go under that store instead:
+${storeList}`
+      : ""
+  }
+
+${answerFormat}
+- List every item exactly once
+- Copy each item's text exactly as provided
+- If an item doesn't clearly fit into a grocery department, put it in Other
+
+Grocery items:
+${items.map((item) => `- ${item}`).join("\n")}`;
+}
+
+/**
+ * Categorizes with Anthropic Claude, which answers by calling a tool
+ * @param client Initialized Anthropic client
+ * @returns The backend
+ */
+export function createAnthropicBackend(client: Anthropic): CategorizerBackend {
+  return {
+    name: "anthropic",
+    async categorize(items, departments, signal) {
+      const response = await client.messages.create(
+        {
+          model: "claude-3-5-haiku-20241022",
+          max_tokens: 2000,
+          temperature: 0.3, // Lower temperature for more consistent categorization
+          tools: [
+            {
+              name: ORGANIZE_TOOL,
+              description:
+                "Record the store department each grocery item belongs in",
+              input_schema: answerSchema(getDepartmentNames(departments)),
+            },
+          ],
+          tool_choice: { type: "tool", name: ORGANIZE_TOOL },
+          messages: [
+            {
+              role: "user",
+              content: buildPrompt(
+                items,
+                departments,
+                `Call the ${ORGANIZE_TOOL} tool with your answer:`
+              ),
+            },
+          ],
+        },
+        // The caller's timeout covers the whole call, so don't retry
+        { signal, maxRetries: 0 }
+      );
+
+      const toolUse = response.content.find(
+        (block): block is Anthropic.ToolUseBlock =>
+          block.type === "tool_use" && block.name === ORGANIZE_TOOL
+      );
+      if (!toolUse) {
+        throw new Error("No tool use returned from Anthropic");
+      }
+      return toolUse.input;
+    },
+  };
+}
+
+/**
+ * Categorizes with any OpenAI-compatible chat completions endpoint, such as a
+ * local Ollama. Uses JSON mode rather than tools, which more local models
+ * support.
+ * @param options.baseUrl The API root, e.g. http://homeserver:11434/v1
+ * @param options.model Model name, e.g. llama3.1
+ * @param options.apiKey Bearer token, if the endpoint needs one
+ * @returns The backend
+ */
+export function createOpenAIBackend({
+  baseUrl,
+  model,
+  apiKey,
+}: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}): CategorizerBackend {
+  return {
+    name: "openai",
+    async categorize(items, departments, signal) {
+      const schema = JSON.stringify(
+        answerSchema(getDepartmentNames(departments))
+      );
+      const response = await fetch(
+        `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          },
+          body: JSON.stringify({
+            model,
+            temperature: 0.3,
+            response_format: { type: "json_object" },
+            messages: [
+              {
+                role: "user",
+                content: buildPrompt(
+                  items,
+                  departments,
+                  `Answer with only a JSON object matching this JSON Schema: ${schema}`
+                ),
+              },
+            ],
+          }),
+          signal,
+        }
+      );
+      if (!response.ok) {
+        throw new Error(`${baseUrl} responded ${response.status}`);
+      }
+
+      const result = (await response.json()) as {
+        choices?: { message?: { content?: string } }[];
+      };
+      const content = result.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error(`No message returned from ${baseUrl}`);
+      }
+      return JSON.parse(content);
+    },
+  };
+}
+
+/**
+ * Picks the backend named by CATEGORIZER_BACKEND. Without one, Anthropic is
+ * used if there's an API key.
+ * @param env Worker environment variables
+ * @returns The backend, or null to use keyword matching alone
+ */
+export function getCategorizerBackend(
+  env: CategorizerEnv
+): CategorizerBackend | null {
+  const anthropicKey = env.ANTHROPIC_API_KEY?.trim();
+  const name =
+    env.CATEGORIZER_BACKEND?.trim().toLowerCase() ||
+    (anthropicKey ? "anthropic" : "keywords");
+
+  if (name === "anthropic" && anthropicKey) {
+    return createAnthropicBackend(new Anthropic({ apiKey: anthropicKey }));
+  }
+  if (name === "openai" && env.OPENAI_BASE_URL && env.OPENAI_MODEL) {
+    return createOpenAIBackend({
+      baseUrl: env.OPENAI_BASE_URL,
+      model: env.OPENAI_MODEL,
+      apiKey: env.OPENAI_API_KEY,
+    });
+  }
+  if (name !== "keywords") {
+    console.warn(
+      `Categorizer backend "${name}" isn't configured, using keyword matching`
+    );
+  }
+  return null;
+}
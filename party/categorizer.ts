@@ -0,0 +1,247 @@
+import { Server } from "partyserver";
+import {
+  DEFAULT_DEPARTMENTS,
+  normalizeItem,
+  validateDepartment,
+} from "./grocery-categorizer";
+import type { Department } from "./grocery-categorizer";
+import { OverrideStore } from "./override-store";
+import type { CategoryOverride } from "./override-store";
+
+const DEPARTMENTS_KEY = "departments";
+const VERSION_KEY = "departmentsVersion";
+const CACHE_PREFIX = "cache:";
+
+// Durable Object storage reads and writes at most 128 keys at a time
+const STORAGE_BATCH = 128;
+
+type DepartmentsResult =
+  | { departments: Department[] }
+  | { error: string; status: number };
+
+/**
+ * CategorizerServer stores what the household has taught the grocery
+ * categorizer. The Remix app calls its methods over Durable Object RPC (see
+ * app/utils/storage.server.ts); nothing is routed to it over HTTP.
+ * Storage keys:
+ * - override:{normalized item} → CategoryOverride
+ * - departments → Department[] in display order, once the household has
+ *   edited them (DEFAULT_DEPARTMENTS until then)
+ * - departmentsVersion → number, bumped whenever the departments change
+ * - cache:{version}:{normalized item} → department the item was last
+ *   categorized into with that version of the departments
+ */
+export class CategorizerServer extends Server {
+  private overrides = new OverrideStore(this.ctx.storage);
+
+  async onRequest(): Promise<Response> {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // Every learned override, alphabetically by item
+  async listOverrides(): Promise<CategoryOverride[]> {
+    return this.overrides.all();
+  }
+
+  // Learned departments keyed by normalized item, for
+  // organizeGroceriesByDepartment
+  async getOverrideMap(): Promise<Record<string, string>> {
+    const overrides: Record<string, string> = {};
+    for (const override of await this.listOverrides()) {
+      overrides[override.item] = override.department;
+    }
+    return overrides;
+  }
+
+  // Learn (or correct) an item's department. Returns null if either is blank.
+  async setOverride(
+    item: string,
+    department: string,
+    userName: string
+  ): Promise<CategoryOverride | null> {
+    return this.overrides.set(item, department, userName);
+  }
+
+  // Forget an item, so it's categorized by keywords or AI again
+  async deleteOverride(item: string): Promise<boolean> {
+    return this.overrides.delete(item);
+  }
+
+  // The household's departments and stores, in display order
+  async getDepartments(): Promise<Department[]> {
+    return (
+      (await this.ctx.storage.get<Department[]>(DEPARTMENTS_KEY)) ??
+      DEFAULT_DEPARTMENTS
+    );
+  }
+
+  /**
+   * Add a department, or replace the one named `originalName`. Renaming a
+   * department moves the items learned for it along with it.
+   */
+  async saveDepartment(
+    originalName: string | null,
+    input: Department
+  ): Promise<DepartmentsResult> {
+    const department = validateDepartment(input);
+    if ("error" in department) {
+      return { error: department.error, status: 400 };
+    }
+
+    const departments = [...(await this.getDepartments())];
+    const index =
+      originalName === null
+        ? -1
+        : departments.findIndex(({ name }) => name === originalName);
+    if (originalName !== null && index === -1) {
+      return { error: "Department not found", status: 404 };
+    }
+
+    const taken = departments.some(
+      ({ name }, i) =>
+        i !== index && name.toLowerCase() === department.name.toLowerCase()
+    );
+    if (taken) {
+      return {
+        error: `There's already a department called ${department.name}`,
+        status: 409,
+      };
+    }
+
+    if (index === -1) {
+      // New departments go before the other stores
+      const firstStore = departments.findIndex(({ store }) => store);
+      departments.splice(
+        department.store || firstStore === -1 ? departments.length : firstStore,
+        0,
+        department
+      );
+    } else {
+      departments[index] = department;
+    }
+    await this.putDepartments(departments);
+
+    if (originalName !== null && originalName !== department.name) {
+      await this.overrides.moveDepartment(originalName, department.name);
+    }
+
+    return { departments };
+  }
+
+  // Remove a department. Items learned for it keep their own heading.
+  async deleteDepartment(name: string): Promise<DepartmentsResult> {
+    const departments = await this.getDepartments();
+    const remaining = departments.filter(
+      (department) => department.name !== name
+    );
+    if (remaining.length === departments.length) {
+      return { error: "Department not found", status: 404 };
+    }
+
+    await this.putDepartments(remaining);
+    return { departments: remaining };
+  }
+
+  // Move a department one place up (-1) or down (1) the list
+  async moveDepartment(
+    name: string,
+    offset: -1 | 1
+  ): Promise<DepartmentsResult> {
+    const departments = [...(await this.getDepartments())];
+    const index = departments.findIndex(
+      (department) => department.name === name
+    );
+    if (index === -1) {
+      return { error: "Department not found", status: 404 };
+    }
+
+    const target = index + offset;
+    if (target < 0 || target >= departments.length) {
+      return { departments };
+    }
+    [departments[index], departments[target]] = [
+      departments[target],
+      departments[index],
+    ];
+    await this.putDepartments(departments);
+    return { departments };
+  }
+
+  // Go back to the built-in departments and keywords
+  async resetDepartments(): Promise<Department[]> {
+    await this.putDepartments(null);
+    return DEFAULT_DEPARTMENTS;
+  }
+
+  // Changes whenever the departments do, so cached results from before a
+  // change aren't used after it
+  async getDepartmentsVersion(): Promise<number> {
+    return (await this.ctx.storage.get<number>(VERSION_KEY)) ?? 0;
+  }
+
+  // Departments items were categorized into before, by normalized item, for
+  // the given version of the departments. Items not seen before are left out.
+  async getCachedDepartments(
+    items: string[],
+    version: number
+  ): Promise<Record<string, string>> {
+    const keys = Array.from(
+      new Set(items.map((item) => this.cacheKey(item, version)))
+    );
+    const cached: Record<string, string> = {};
+    for (let i = 0; i < keys.length; i += STORAGE_BATCH) {
+      const entries = await this.ctx.storage.get<string>(
+        keys.slice(i, i + STORAGE_BATCH)
+      );
+      for (const [key, department] of entries) {
+        cached[key.slice(`${CACHE_PREFIX}${version}:`.length)] = department;
+      }
+    }
+    return cached;
+  }
+
+  // Remember where items were categorized, unless the departments have
+  // changed since
+  async cacheDepartments(
+    departments: Record<string, string>,
+    version: number
+  ): Promise<void> {
+    if (version !== (await this.getDepartmentsVersion())) {
+      return;
+    }
+
+    const entries = Object.entries(departments).map(
+      ([item, department]) =>
+        [this.cacheKey(item, version), department] as const
+    );
+    for (let i = 0; i < entries.length; i += STORAGE_BATCH) {
+      await this.ctx.storage.put(
+        Object.fromEntries(entries.slice(i, i + STORAGE_BATCH))
+      );
+    }
+  }
+
+  private cacheKey(item: string, version: number): string {
+    return `${CACHE_PREFIX}${version}:${normalizeItem(item)}`;
+  }
+
+  // Save the departments (null for the defaults), and start a new version
+  // with an empty cache
+  private async putDepartments(departments: Department[] | null) {
+    if (departments) {
+      await this.ctx.storage.put(DEPARTMENTS_KEY, departments);
+    } else {
+      await this.ctx.storage.delete(DEPARTMENTS_KEY);
+    }
+    await this.ctx.storage.put(
+      VERSION_KEY,
+      (await this.getDepartmentsVersion()) + 1
+    );
+
+    const cached = await this.ctx.storage.list({ prefix: CACHE_PREFIX });
+    const keys = Array.from(cached.keys());
+    for (let i = 0; i < keys.length; i += STORAGE_BATCH) {
+      await this.ctx.storage.delete(keys.slice(i, i + STORAGE_BATCH));
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Unit tests for the circuit breaker around categorizer backends
+ * Run with: node --import tsx --test party/circuit-breaker.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { CircuitBreaker } from "./circuit-breaker";
+
+test("the breaker opens after repeated failures", () => {
+  const breaker = new CircuitBreaker(2, 1000);
+  breaker.recordFailure(0);
+  assert.strictEqual(breaker.canTry(10), true);
+  breaker.recordFailure(10);
+  assert.strictEqual(breaker.canTry(20), false);
+});
+
+test("a success resets the failure count", () => {
+  const breaker = new CircuitBreaker(2, 1000);
+  breaker.recordFailure(0);
+  breaker.recordSuccess();
+  breaker.recordFailure(10);
+  assert.strictEqual(breaker.canTry(20), true);
+});
+
+test("after the cooldown one call is let through", () => {
+  const breaker = new CircuitBreaker(1, 1000);
+  breaker.recordFailure(0);
+  assert.strictEqual(breaker.canTry(1000), true);
+  // Until that call finishes, or if it fails, the breaker stays open
+  assert.strictEqual(breaker.canTry(1001), false);
+  breaker.recordFailure(1500);
+  assert.strictEqual(breaker.canTry(2400), false);
+  assert.strictEqual(breaker.canTry(2500), true);
+  breaker.recordSuccess();
+  assert.strictEqual(breaker.canTry(2501), true);
+});
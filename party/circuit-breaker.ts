@@ -0,0 +1,43 @@
+/**
+ * Stops calling a service that keeps failing, for a while
+ * After `threshold` failures in a row the breaker opens, and calls are skipped
+ * until `cooldownMs` has passed. Then one call is let through: if it succeeds
+ * the breaker closes again, and if it fails the breaker stays open for another
+ * cooldown.
+ */
+export class CircuitBreaker {
+  private readonly threshold: number;
+  private readonly cooldownMs: number;
+  private failures = 0;
+  private openedAt: number | null = null;
+
+  constructor(threshold = 3, cooldownMs = 60_000) {
+    this.threshold = threshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  // Whether a call should be made now
+  canTry(now = Date.now()): boolean {
+    if (this.openedAt === null) {
+      return true;
+    }
+    if (now - this.openedAt >= this.cooldownMs) {
+      // Let one call through; a failure reopens the breaker from now
+      this.openedAt = now;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure(now = Date.now()) {
+    this.failures++;
+    if (this.failures >= this.threshold) {
+      this.openedAt = now;
+    }
+  }
+}
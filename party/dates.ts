@@ -0,0 +1,40 @@
+/**
+ * Calendar dates in Pacific time, where the household lives. Star chart days
+ * and weekly document resets both turn over at Pacific midnight. Dates are
+ * YYYY-MM-DD strings.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// The calendar date (YYYY-MM-DD) of a timestamp in Pacific time
+export function getPacificDate(timestamp: number): string {
+  const formatter = new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/Los_Angeles",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+  return formatter.format(new Date(timestamp)); // Returns YYYY-MM-DD
+}
+
+// Midnight at the start of a Pacific date: 07:00 UTC during daylight saving
+// time, 08:00 UTC otherwise
+export function getPacificMidnight(date: string): number {
+  const utcMidnight = Date.parse(`${date}T00:00:00Z`);
+  const daylight = utcMidnight + 7 * HOUR_MS;
+  return getPacificDate(daylight) === date
+    ? daylight
+    : utcMidnight + 8 * HOUR_MS;
+}
+
+// Dates are Pacific calendar days, so step through them in UTC to avoid DST
+export const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS
+  );
@@ -0,0 +1,233 @@
+/**
+ * Unit tests for Markdown/text/HTML export and Markdown import
+ * Run with: node --import tsx --test party/document-format.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import * as Y from "yjs";
+import {
+  appendNodes,
+  fragmentToNodes,
+  parseMarkdown,
+  removeCheckedItems,
+  toHtml,
+  toMarkdown,
+  toPlainText,
+} from "./document-format";
+import type { DocumentNode } from "./document-format";
+
+const paragraph = (...content: DocumentNode[]): DocumentNode => ({
+  type: "paragraph",
+  content,
+});
+const text = (value: string, ...marks: string[]): DocumentNode =>
+  marks.length > 0
+    ? { type: "text", text: value, marks: marks.map((type) => ({ type })) }
+    : { type: "text", text: value };
+
+// A grocery list the way the editor stores it
+const groceries: DocumentNode[] = [
+  { type: "heading", attrs: { level: 2 }, content: [text("Produce")] },
+  {
+    type: "taskList",
+    content: [
+      {
+        type: "taskItem",
+        attrs: { checked: true },
+        content: [paragraph(text("Apples"))],
+      },
+      {
+        type: "taskItem",
+        attrs: { checked: false },
+        content: [
+          paragraph(text("Lettuce "), text("organic", "bold")),
+          {
+            type: "bulletList",
+            content: [
+              { type: "listItem", content: [paragraph(text("Romaine"))] },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    type: "orderedList",
+    attrs: { start: 1 },
+    content: [
+      { type: "listItem", content: [paragraph(text("Preheat"))] },
+      { type: "listItem", content: [paragraph(text("Bake"))] },
+    ],
+  },
+];
+
+// Write nodes to a Yjs fragment the way y-prosemirror does, and read them back
+function roundTripYjs(nodes: DocumentNode[]): DocumentNode[] {
+  const doc = new Y.Doc();
+  const fragment = doc.getXmlFragment("content");
+  doc.transact(() => appendNodes(fragment, nodes));
+  return fragmentToNodes(fragment);
+}
+
+test("Yjs fragments round-trip through ProseMirror JSON", () => {
+  assert.deepStrictEqual(roundTripYjs(groceries), groceries);
+});
+
+test("markdown export keeps headings, nested lists and checkboxes", () => {
+  assert.strictEqual(
+    toMarkdown("Shopping", groceries),
+    [
+      "# Shopping",
+      "",
+      "## Produce",
+      "",
+      "- [x] Apples",
+      "- [ ] Lettuce **organic**",
+      "      - Romaine",
+      "",
+      "1. Preheat",
+      "2. Bake",
+      "",
+    ].join("\n")
+  );
+});
+
+test("markdown export escapes text that would otherwise be formatting", () => {
+  const markdown = toMarkdown("Notes", [
+    paragraph(text("2. not a list, *not* bold")),
+    paragraph(text("- still text")),
+  ]);
+  assert.ok(markdown.includes("2\\. not a list, \\*not\\* bold"));
+  assert.ok(markdown.includes("\\- still text"));
+  assert.deepStrictEqual(parseMarkdown(markdown).content, [
+    paragraph(text("2. not a list, *not* bold")),
+    paragraph(text("- still text")),
+  ]);
+});
+
+test("plain text export drops formatting but keeps list markers", () => {
+  assert.strictEqual(
+    toPlainText("Shopping", groceries),
+    [
+      "Shopping",
+      "",
+      "Produce",
+      "",
+      "[x] Apples",
+      "[ ] Lettuce organic",
+      "    - Romaine",
+      "",
+      "1. Preheat",
+      "2. Bake",
+      "",
+    ].join("\n")
+  );
+});
+
+test("html export escapes text and renders task items as checkboxes", () => {
+  const html = toHtml("Fish & <Chips>", groceries);
+  assert.ok(html.includes("<title>Fish &amp; &lt;Chips&gt;</title>"));
+  assert.ok(html.includes('<li data-type="taskItem" data-checked="true">'));
+  assert.ok(html.includes('<input type="checkbox" checked disabled>'));
+  assert.ok(html.includes("<p>Lettuce <strong>organic</strong></p>"));
+  assert.ok(html.includes("<ol><li><p>Preheat</p></li>"));
+});
+
+test("exported markdown imports back to the same content", () => {
+  const { title, content } = parseMarkdown(toMarkdown("Shopping", groceries));
+  assert.strictEqual(title, "Shopping");
+  assert.deepStrictEqual(content, groceries);
+});
+
+test("importing markdown without a title heading", () => {
+  const { title, content } = parseMarkdown(
+    [
+      "Some *notes* with ~~old~~ `code`",
+      "on two lines",
+      "",
+      "> A quote",
+      "",
+      "* [link](https://example.com)",
+      "* ***both***",
+      "",
+      "```js",
+      "let x = 1;",
+      "```",
+      "",
+      "---",
+    ].join("\r\n")
+  );
+
+  assert.strictEqual(title, null);
+  assert.deepStrictEqual(content, [
+    paragraph(
+      text("Some "),
+      text("notes", "italic"),
+      text(" with "),
+      text("old", "strike"),
+      text(" "),
+      text("code", "code"),
+      text(" on two lines")
+    ),
+    { type: "blockquote", content: [paragraph(text("A quote"))] },
+    {
+      type: "bulletList",
+      content: [
+        {
+          type: "listItem",
+          content: [paragraph(text("link (https://example.com)"))],
+        },
+        {
+          type: "listItem",
+          content: [paragraph(text("both", "bold", "italic"))],
+        },
+      ],
+    },
+    {
+      type: "codeBlock",
+      attrs: { language: "js" },
+      content: [text("let x = 1;")],
+    },
+    { type: "horizontalRule" },
+  ]);
+});
+
+test("imported lists split where the kind of list changes", () => {
+  const { content } = parseMarkdown(
+    ["- [ ] Milk", "- [x] Eggs", "- Bread", "", "3. Third", "4. Fourth"].join(
+      "\n"
+    )
+  );
+  assert.deepStrictEqual(
+    content.map((node) => [node.type, node.content?.length, node.attrs]),
+    [
+      ["taskList", 2, undefined],
+      ["bulletList", 1, undefined],
+      ["orderedList", 2, { start: 3 }],
+    ]
+  );
+});
+
+test("clearing checked items drops emptied task lists", () => {
+  const doc = new Y.Doc();
+  const fragment = doc.getXmlFragment("content");
+  const task = (name: string, checked: boolean): DocumentNode => ({
+    type: "taskItem",
+    attrs: { checked },
+    content: [paragraph(text(name))],
+  });
+  doc.transact(() =>
+    appendNodes(fragment, [
+      { type: "taskList", content: [task("Dishes", true), task("Mop", false)] },
+      paragraph(text("Done:")),
+      { type: "taskList", content: [task("Laundry", true)] },
+    ])
+  );
+
+  doc.transact(() => removeCheckedItems(fragment));
+  assert.deepStrictEqual(fragmentToNodes(fragment), [
+    { type: "taskList", content: [task("Mop", false)] },
+    paragraph(text("Done:")),
+  ]);
+});
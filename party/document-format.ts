@@ -0,0 +1,673 @@
+import * as Y from "yjs";
+
+/**
+ * A node in ProseMirror's JSON shape (what TipTap's editor.getJSON() returns).
+ * The editor keeps each document in Yjs through y-tiptap (TipTap's fork of
+ * y-prosemirror), which stores every node as a Y.XmlElement named after its
+ * type, with the node's attrs as XML attributes, and runs of text as
+ * Y.XmlText with one formatting attribute per mark.
+ */
+export type DocumentNode = {
+  type: string;
+  attrs?: Record<string, AttrValue>;
+  content?: DocumentNode[];
+  text?: string;
+  marks?: { type: string; attrs?: Record<string, AttrValue> }[];
+};
+
+// Attrs are plain values, so nodes can be passed between servers over RPC
+type AttrValue = string | number | boolean | null | undefined;
+
+export type ExportFormat = "md" | "txt" | "html";
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { extension: string; contentType: string }
+> = {
+  md: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+  txt: { extension: "txt", contentType: "text/plain; charset=utf-8" },
+  html: { extension: "html", contentType: "text/html; charset=utf-8" },
+};
+
+// Read a Yjs fragment written by the editor as ProseMirror JSON
+export function fragmentToNodes(
+  parent: Y.XmlFragment | Y.XmlElement
+): DocumentNode[] {
+  return parent.toArray().flatMap((child): DocumentNode[] => {
+    if (child instanceof Y.XmlText) {
+      return child
+        .toDelta()
+        .filter((op: { insert: unknown }) => typeof op.insert === "string")
+        .map(
+          (op: {
+            insert: string;
+            attributes?: Record<string, Record<string, unknown> | null>;
+          }) => {
+            const marks = Object.entries(op.attributes ?? {}).map(
+              ([type, attrs]) =>
+                attrs && Object.keys(attrs).length > 0
+                  ? { type, attrs }
+                  : { type }
+            );
+            return {
+              type: "text",
+              text: op.insert,
+              ...(marks.length > 0 && { marks }),
+            };
+          }
+        );
+    }
+
+    if (child instanceof Y.XmlElement) {
+      const attrs = child.getAttributes();
+      const content = fragmentToNodes(child);
+      return [
+        {
+          type: child.nodeName,
+          ...(Object.keys(attrs).length > 0 && { attrs }),
+          ...(content.length > 0 && { content }),
+        },
+      ];
+    }
+
+    return [];
+  });
+}
+
+// Append ProseMirror JSON to a Yjs fragment, the way the editor would store it.
+// Call inside a transaction so the whole thing syncs as one update.
+export function appendNodes(
+  parent: Y.XmlFragment | Y.XmlElement,
+  nodes: DocumentNode[]
+): void {
+  let text: Y.XmlText | null = null;
+
+  for (const node of nodes) {
+    if (node.type === "text") {
+      if (!text) {
+        text = new Y.XmlText();
+        parent.insert(parent.length, [text]);
+      }
+      const attributes: Record<string, Record<string, unknown>> = {};
+      for (const mark of node.marks ?? []) {
+        attributes[mark.type] = mark.attrs ?? {};
+      }
+      text.insert(text.length, node.text ?? "", attributes);
+      continue;
+    }
+
+    text = null;
+    const element = new Y.XmlElement(node.type);
+    parent.insert(parent.length, [element]);
+    for (const [key, value] of Object.entries(node.attrs ?? {})) {
+      if (value !== null && value !== undefined) {
+        element.setAttribute(key, value as string);
+      }
+    }
+    appendNodes(element, node.content ?? []);
+  }
+}
+
+// Remove every checked task item, like the editor's "Clear checked" button,
+// along with any task list that leaves empty. Call inside a transaction.
+export function removeCheckedItems(parent: Y.XmlFragment | Y.XmlElement): void {
+  const children = parent.toArray();
+  // From the end, so earlier indexes stay valid
+  for (let i = children.length - 1; i >= 0; i--) {
+    const child = children[i];
+    if (!(child instanceof Y.XmlElement)) {
+      continue;
+    }
+    if (child.nodeName === "taskItem" && child.getAttribute("checked")) {
+      parent.delete(i, 1);
+      continue;
+    }
+    removeCheckedItems(child);
+    if (child.nodeName === "taskList" && child.length === 0) {
+      parent.delete(i, 1);
+    }
+  }
+}
+
+// The text of a title fragment, which only ever holds plain paragraphs
+export function getTitleText(nodes: DocumentNode[]): string {
+  return nodes.map(inlineText).join(" ").trim();
+}
+
+const inlineText = (node: DocumentNode): string =>
+  node.type === "text"
+    ? node.text ?? ""
+    : node.type === "hardBreak"
+    ? "\n"
+    : (node.content ?? []).map(inlineText).join("");
+
+const hasMark = (node: DocumentNode, type: string) =>
+  node.marks?.some((mark) => mark.type === type) ?? false;
+
+// Prefix the first line and indent the rest, e.g. for list items
+function indent(text: string, first: string, rest: string): string {
+  return text
+    .split("\n")
+    .map((line, i) => (i === 0 ? first : line ? rest : "") + line)
+    .join("\n");
+}
+
+/*
+ * Markdown and plain text
+ *
+ * Both are written by one serializer: plain text keeps the list markers and
+ * checkboxes (they carry meaning in a shopping list) but drops inline
+ * formatting, heading markers and code fences.
+ */
+
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_~[\]]/g, "\\$&")
+    .replace(/^(\s*)(#|>|[-+](?=\s))/gm, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])(?=\s)/gm, "$1\\$2");
+}
+
+function inlineMarkdown(nodes: DocumentNode[], plain: boolean): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "hardBreak") {
+        return plain ? "\n" : "\\\n";
+      }
+      const text = node.text ?? "";
+      if (plain) {
+        return text;
+      }
+      if (hasMark(node, "code")) {
+        return `\`${text}\``;
+      }
+
+      // Keep surrounding spaces outside the markers, or they won't parse
+      const [, leading, inner, trailing] = /^(\s*)(.*?)(\s*)$/s.exec(text)!;
+      if (!inner) {
+        return text;
+      }
+      let result = escapeMarkdown(inner);
+      if (hasMark(node, "italic")) result = `*${result}*`;
+      if (hasMark(node, "bold")) result = `**${result}**`;
+      if (hasMark(node, "strike")) result = `~~${result}~~`;
+      return leading + result + trailing;
+    })
+    .join("");
+}
+
+function listMarkdown(node: DocumentNode, plain: boolean): string {
+  const start = Number(node.attrs?.start ?? 1);
+  return (node.content ?? [])
+    .map((item, i) => {
+      let marker = "- ";
+      if (node.type === "orderedList") {
+        marker = `${start + i}. `;
+      } else if (item.type === "taskItem") {
+        const box = item.attrs?.checked ? "[x] " : "[ ] ";
+        marker = plain ? box : `- ${box}`;
+      }
+      const body = (item.content ?? [])
+        .map((child) => blockMarkdown(child, plain))
+        .join("\n");
+      return indent(body, marker, " ".repeat(marker.length));
+    })
+    .join("\n");
+}
+
+function blockMarkdown(node: DocumentNode, plain: boolean): string {
+  const content = node.content ?? [];
+  switch (node.type) {
+    case "paragraph":
+      return inlineMarkdown(content, plain);
+    case "heading": {
+      const level = Math.min(Math.max(Number(node.attrs?.level ?? 1), 1), 6);
+      const text = inlineMarkdown(content, plain);
+      return plain ? text : `${"#".repeat(level)} ${text}`;
+    }
+    case "bulletList":
+    case "orderedList":
+    case "taskList":
+      return listMarkdown(node, plain);
+    case "blockquote":
+      return indent(blocksMarkdown(content, plain), "> ", "> ")
+        .split("\n")
+        .map((line) => (line ? line : ">"))
+        .join("\n");
+    case "codeBlock": {
+      const code = content.map(inlineText).join("");
+      if (plain) {
+        return code;
+      }
+      // Use a longer fence than any run of backticks in the code
+      const longest = Math.max(
+        0,
+        ...(code.match(/`+/g) ?? []).map((run) => run.length)
+      );
+      const fence = "`".repeat(Math.max(3, longest + 1));
+      const language = node.attrs?.language ?? "";
+      return `${fence}${language}\n${code}\n${fence}`;
+    }
+    case "horizontalRule":
+      return "---";
+    default:
+      // Something from an extension we don't know: keep its text
+      return content.length > 0 ? blocksMarkdown(content, plain) : "";
+  }
+}
+
+function blocksMarkdown(nodes: DocumentNode[], plain: boolean): string {
+  return nodes.map((node) => blockMarkdown(node, plain)).join("\n\n");
+}
+
+export function toMarkdown(title: string, nodes: DocumentNode[]): string {
+  const body = blocksMarkdown(nodes, false);
+  return `# ${escapeMarkdown(title)}\n\n${body}`.trimEnd() + "\n";
+}
+
+// Content as plain text, like the copy the editor saves with the metadata
+export function getPlainText(nodes: DocumentNode[]): string {
+  return blocksMarkdown(nodes, true).trim();
+}
+
+export function toPlainText(title: string, nodes: DocumentNode[]): string {
+  return `${title}\n\n${getPlainText(nodes)}`.trimEnd() + "\n";
+}
+
+/*
+ * HTML, using the same markup as the editor so task lists keep their
+ * checkboxes
+ */
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const MARK_TAGS: Record<string, string> = {
+  bold: "strong",
+  italic: "em",
+  strike: "s",
+  code: "code",
+};
+
+function inlineHtml(nodes: DocumentNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "hardBreak") {
+        return "<br>";
+      }
+      let html = escapeHtml(node.text ?? "");
+      for (const mark of node.marks ?? []) {
+        const tag = MARK_TAGS[mark.type];
+        if (tag) {
+          html = `<${tag}>${html}</${tag}>`;
+        }
+      }
+      return html;
+    })
+    .join("");
+}
+
+function blockHtml(node: DocumentNode): string {
+  const content = node.content ?? [];
+  switch (node.type) {
+    case "paragraph":
+      return `<p>${inlineHtml(content)}</p>`;
+    case "heading": {
+      const level = Math.min(Math.max(Number(node.attrs?.level ?? 1), 1), 6);
+      return `<h${level}>${inlineHtml(content)}</h${level}>`;
+    }
+    case "bulletList":
+      return `<ul>${blocksHtml(content)}</ul>`;
+    case "orderedList": {
+      const start = Number(node.attrs?.start ?? 1);
+      return `<ol${start !== 1 ? ` start="${start}"` : ""}>${blocksHtml(
+        content
+      )}</ol>`;
+    }
+    case "listItem":
+      return `<li>${blocksHtml(content)}</li>`;
+    case "taskList":
+      return `<ul data-type="taskList">${blocksHtml(content)}</ul>`;
+    case "taskItem": {
+      const checked = Boolean(node.attrs?.checked);
+      return `<li data-type="taskItem" data-checked="${checked}"><label><input type="checkbox"${
+        checked ? " checked" : ""
+      } disabled></label><div>${blocksHtml(content)}</div></li>`;
+    }
+    case "blockquote":
+      return `<blockquote>${blocksHtml(content)}</blockquote>`;
+    case "codeBlock":
+      return `<pre><code>${escapeHtml(
+        content.map(inlineText).join("")
+      )}</code></pre>`;
+    case "horizontalRule":
+      return "<hr>";
+    default:
+      return blocksHtml(content);
+  }
+}
+
+function blocksHtml(nodes: DocumentNode[]): string {
+  return nodes.map(blockHtml).join("\n");
+}
+
+export function toHtml(title: string, nodes: DocumentNode[]): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+ul[data-type="taskList"] { list-style: none; padding-left: 0.5rem; }
+ul[data-type="taskList"] li { display: flex; gap: 0.5rem; }
+ul[data-type="taskList"] li > div > p { margin: 0; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${blocksHtml(nodes)}
+</body>
+</html>
+`;
+}
+
+export function renderDocument(
+  format: ExportFormat,
+  title: string,
+  nodes: DocumentNode[]
+): string {
+  switch (format) {
+    case "md":
+      return toMarkdown(title, nodes);
+    case "txt":
+      return toPlainText(title, nodes);
+    case "html":
+      return toHtml(title, nodes);
+  }
+}
+
+/*
+ * Importing Markdown
+ *
+ * Covers what the editor can show: headings, paragraphs, bullet, numbered
+ * and task lists (nested by indentation), blockquotes, code blocks, rules and
+ * bold/italic/strikethrough/code. The editor has no links, so a link becomes
+ * its text followed by the URL.
+ */
+
+const text = (value: string, marks: string[]): DocumentNode =>
+  marks.length > 0
+    ? { type: "text", text: value, marks: marks.map((type) => ({ type })) }
+    : { type: "text", text: value };
+
+const INLINE =
+  /\\([!-/:-@[-`{-~])|`([^`]+)`|\*\*\*(.+?)\*\*\*|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*(.+?)\*|\b_(.+?)_\b|\[([^\]]*)\]\(([^)\s]*)\)/g;
+
+// Add inline content, merging runs of text with the same marks as the
+// editor would
+function pushInline(nodes: DocumentNode[], node: DocumentNode): void {
+  const last = nodes[nodes.length - 1];
+  if (
+    node.type === "text" &&
+    last?.type === "text" &&
+    JSON.stringify(last.marks) === JSON.stringify(node.marks)
+  ) {
+    last.text += node.text ?? "";
+  } else {
+    nodes.push(node);
+  }
+}
+
+function parseInline(source: string, marks: string[] = []): DocumentNode[] {
+  const nodes: DocumentNode[] = [];
+  const push = (node: DocumentNode) => pushInline(nodes, node);
+
+  const pattern = new RegExp(INLINE.source, "g");
+  let index = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    if (match.index > index) {
+      push(text(source.slice(index, match.index), marks));
+    }
+    index = match.index + match[0].length;
+
+    const [, escaped, code, boldItalic, bold, boldAlt, strike, italic] = match;
+    const [italicAlt, linkText, href] = [match[8], match[9], match[10]];
+    if (escaped !== undefined) {
+      push(text(escaped, marks));
+    } else if (code !== undefined) {
+      push(text(code, [...marks, "code"]));
+    } else if (boldItalic !== undefined) {
+      parseInline(boldItalic, [...marks, "bold", "italic"]).forEach(push);
+    } else if (bold !== undefined || boldAlt !== undefined) {
+      parseInline(bold ?? boldAlt, [...marks, "bold"]).forEach(push);
+    } else if (strike !== undefined) {
+      parseInline(strike, [...marks, "strike"]).forEach(push);
+    } else if (italic !== undefined || italicAlt !== undefined) {
+      parseInline(italic ?? italicAlt, [...marks, "italic"]).forEach(push);
+    } else {
+      parseInline(linkText, marks).forEach(push);
+      if (href && href !== linkText) {
+        push(text(` (${href})`, marks));
+      }
+    }
+  }
+  if (index < source.length) {
+    push(text(source.slice(index), marks));
+  }
+  return nodes;
+}
+
+// Lines joined by a trailing backslash or two spaces keep their line break
+function parseParagraph(lines: string[]): DocumentNode {
+  const content: DocumentNode[] = [];
+  lines.forEach((line, i) => {
+    const hardBreak = /(\\| {2,})$/.test(line);
+    for (const node of parseInline(line.trim().replace(/\\$/, ""))) {
+      pushInline(content, node);
+    }
+    if (i < lines.length - 1) {
+      pushInline(content, hardBreak ? { type: "hardBreak" } : text(" ", []));
+    }
+  });
+  return {
+    type: "paragraph",
+    ...(content.length > 0 && { content }),
+  };
+}
+
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])(?:\s+(.*))?$/;
+const TASK = /^\[([ xX])\](?:\s+(.*))?$/;
+
+const indentOf = (line: string) => /^\s*/.exec(line)![0].length;
+const isBlank = (line: string) => line.trim() === "";
+const startsBlock = (line: string) =>
+  HEADING.test(line) ||
+  FENCE.test(line) ||
+  RULE.test(line) ||
+  QUOTE.test(line) ||
+  LIST_ITEM.test(line);
+
+type ListKind = "bulletList" | "orderedList" | "taskList";
+
+function listItemKind(marker: string, rest: string): ListKind {
+  if (/^\d/.test(marker)) return "orderedList";
+  return TASK.test(rest) ? "taskList" : "bulletList";
+}
+
+// Parse the list starting at lines[start]; returns it and the next line index
+function parseList(
+  lines: string[],
+  start: number
+): { list: DocumentNode; next: number } {
+  const [, leading, firstMarker, firstRest = ""] = LIST_ITEM.exec(
+    lines[start]
+  )!;
+  const listIndent = leading.length;
+  const kind = listItemKind(firstMarker, firstRest);
+  const items: DocumentNode[] = [];
+
+  let i = start;
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (!match || match[1].length !== listIndent) break;
+    const [, , marker, rest = ""] = match;
+    // A different kind of list right after this one starts a new list
+    if (listItemKind(marker, rest) !== kind) break;
+
+    const task = kind === "taskList" ? TASK.exec(rest) : null;
+    const body = [task ? task[2] ?? "" : rest];
+    const contentIndent = listIndent + marker.length + 1;
+    i++;
+
+    // The item continues through indented lines, including blank lines
+    // between them
+    while (i < lines.length) {
+      if (isBlank(lines[i])) {
+        let next = i;
+        while (next < lines.length && isBlank(lines[next])) next++;
+        if (next === lines.length || indentOf(lines[next]) <= listIndent) {
+          break;
+        }
+        body.push(...lines.slice(i, next).map(() => ""));
+        i = next;
+        continue;
+      }
+      if (indentOf(lines[i]) <= listIndent) break;
+      body.push(lines[i].slice(Math.min(indentOf(lines[i]), contentIndent)));
+      i++;
+    }
+
+    // List items must start with a paragraph
+    const content = parseBlocks(body);
+    if (content[0]?.type !== "paragraph") {
+      content.unshift({ type: "paragraph" });
+    }
+    items.push({
+      type: kind === "taskList" ? "taskItem" : "listItem",
+      ...(task && { attrs: { checked: task[1] !== " " } }),
+      content,
+    });
+
+    // Blank lines between items keep the list going
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    if (next < lines.length && LIST_ITEM.test(lines[next])) {
+      i = next;
+    }
+  }
+
+  return {
+    list: {
+      type: kind,
+      ...(kind === "orderedList" && {
+        attrs: { start: parseInt(firstMarker, 10) },
+      }),
+      content: items,
+    },
+    next: i,
+  };
+}
+
+function parseBlocks(lines: string[]): DocumentNode[] {
+  const blocks: DocumentNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // The closing fence
+      blocks.push({
+        type: "codeBlock",
+        ...(fence[2] && { attrs: { language: fence[2] } }),
+        ...(code.length > 0 && {
+          content: [{ type: "text", text: code.join("\n") }],
+        }),
+      });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const content = parseInline(heading[2] ?? "");
+      blocks.push({
+        type: "heading",
+        attrs: { level: heading[1].length },
+        ...(content.length > 0 && { content }),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "horizontalRule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        const quote = QUOTE.exec(lines[i]);
+        quoted.push(quote ? quote[1] : lines[i]);
+        i++;
+      }
+      blocks.push({ type: "blockquote", content: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { list, next } = parseList(lines, i);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+
+    const paragraph = [line];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push(parseParagraph(paragraph));
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse Markdown into editor content. A level-one heading at the very top
+ * becomes the title (the editor keeps the title separately), otherwise the
+ * title is null.
+ */
+export function parseMarkdown(markdown: string): {
+  title: string | null;
+  content: DocumentNode[];
+} {
+  const content = parseBlocks(markdown.replace(/\r\n?/g, "\n").split("\n"));
+  const [first] = content;
+  if (first?.type === "heading" && first.attrs?.level === 1) {
+    return { title: getTitleText([first]), content: content.slice(1) };
+  }
+  return { title: null, content };
+}
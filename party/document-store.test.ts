@@ -0,0 +1,220 @@
+/**
+ * Unit tests for the document store's slug index and atomic operations
+ * Run with: node --import tsx --test party/document-store.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { DocumentStore } from "./document-store";
+import type { DocumentStorage } from "./document-store";
+import type { Document } from "./documents";
+
+// In-memory storage whose writes each take a turn of the event loop, so
+// concurrent operations interleave the way they can in a Durable Object
+class MemoryStorage implements DocumentStorage {
+  data = new Map<string, unknown>();
+
+  async list<T>(): Promise<Map<string, T>> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    return new Map(this.data) as Map<string, T>;
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    return this.data.delete(key);
+  }
+}
+
+async function makeStore(...slugs: string[]) {
+  const storage = new MemoryStorage();
+  const store = new DocumentStore(storage);
+  await store.load();
+  for (const slug of slugs) {
+    await store.create(slug, slug);
+  }
+  return { storage, store };
+}
+
+function storedSlugs(storage: MemoryStorage) {
+  return Array.from(storage.data.values())
+    .map((doc) => (doc as Document).slug)
+    .sort();
+}
+
+test("concurrent renames to the same slug: exactly one wins", async () => {
+  const { storage, store } = await makeStore("a", "b");
+
+  const results = await Promise.all([
+    store.rename("a", "groceries"),
+    store.rename("b", "groceries"),
+  ]);
+
+  const succeeded = results.filter((result) => "document" in result);
+  const failed = results.filter((result) => "error" in result);
+  assert.strictEqual(succeeded.length, 1);
+  assert.strictEqual(failed.length, 1);
+  assert.strictEqual("status" in failed[0] && failed[0].status, 409);
+
+  const [winner] = succeeded as { document: Document }[];
+  assert.strictEqual(store.getBySlug("groceries")?.id, winner.document.id);
+  const loser = winner.document.title === "a" ? "b" : "a";
+  assert.deepStrictEqual(storedSlugs(storage), [loser, "groceries"]);
+});
+
+test("concurrent renames of one document: the second sees it moved", async () => {
+  const { storage, store } = await makeStore("list");
+
+  const [first, second] = await Promise.all([
+    store.rename("list", "groceries"),
+    store.rename("list", "shopping"),
+  ]);
+
+  assert.ok("document" in first);
+  assert.ok("error" in second && second.status === 404);
+  assert.strictEqual(store.getBySlug("list"), null);
+  assert.strictEqual(store.getBySlug("shopping"), null);
+  assert.deepStrictEqual(storedSlugs(storage), ["groceries"]);
+});
+
+test("renames chained concurrently through a slug stay consistent", async () => {
+  const { storage, store } = await makeStore("a", "b");
+
+  // b moves out of "b" while a moves into it
+  const results = await Promise.all([
+    store.rename("b", "c"),
+    store.rename("a", "b"),
+  ]);
+
+  assert.ok(results.every((result) => "document" in result));
+  assert.deepStrictEqual(storedSlugs(storage), ["b", "c"]);
+  assert.strictEqual(store.getBySlug("a"), null);
+});
+
+test("concurrent creates with the same slug: exactly one wins", async () => {
+  const { storage, store } = await makeStore();
+
+  const results = await Promise.all([
+    store.create("todo", "Mine"),
+    store.create("todo", "Yours"),
+  ]);
+
+  assert.strictEqual(
+    results.filter((result) => "document" in result).length,
+    1
+  );
+  assert.strictEqual(storage.data.size, 1);
+});
+
+test("an update racing a rename keeps the new slug", async () => {
+  const { storage, store } = await makeStore("notes");
+
+  await Promise.all([
+    store.rename("notes", "journal"),
+    store.update("notes", { title: "Too late" }),
+  ]);
+
+  assert.deepStrictEqual(storedSlugs(storage), ["journal"]);
+  assert.notStrictEqual(store.getBySlug("journal")?.title, "Too late");
+});
+
+test("renaming to the current slug changes nothing", async () => {
+  const { store } = await makeStore("notes");
+  const before = store.getBySlug("notes");
+
+  const result = await store.rename("notes", "notes");
+  assert.ok("document" in result);
+  assert.strictEqual(result.document, before);
+});
+
+test("delete requires archiving first and frees the slug", async () => {
+  const { storage, store } = await makeStore("old");
+
+  const refused = await store.delete("old");
+  assert.ok("error" in refused && refused.status === 400);
+
+  await store.setArchived("old", true);
+  const deleted = await store.delete("old");
+  assert.ok("document" in deleted);
+  assert.strictEqual(storage.data.size, 0);
+
+  const recreated = await store.create("old", "Fresh start");
+  assert.ok("document" in recreated);
+});
+
+test("load rebuilds the slug index from storage", async () => {
+  const { storage } = await makeStore("a", "b");
+  const reloaded = new DocumentStore(storage);
+  await reloaded.load();
+
+  assert.strictEqual(reloaded.getBySlug("a")?.slug, "a");
+  assert.ok("error" in (await reloaded.create("b", "Duplicate")));
+});
+
+test("a renamed document can still be found by its old slug", async () => {
+  const { store } = await makeStore("list");
+  await store.rename("list", "groceries");
+  await store.rename("groceries", "shopping");
+
+  assert.strictEqual(store.getBySlug("list"), null);
+  assert.strictEqual(store.getByPreviousSlug("list")?.slug, "shopping");
+  assert.strictEqual(store.getByPreviousSlug("groceries")?.slug, "shopping");
+  assert.deepStrictEqual(store.getBySlug("shopping")?.previousSlugs, [
+    "list",
+    "groceries",
+  ]);
+});
+
+test("an old slug is freed when another document claims it", async () => {
+  const { storage, store } = await makeStore("list", "other");
+  await store.rename("list", "groceries");
+
+  const created = await store.create("list", "New list");
+  assert.ok("document" in created);
+  assert.strictEqual(store.getByPreviousSlug("list"), null);
+  assert.deepStrictEqual(store.getBySlug("groceries")?.previousSlugs, []);
+
+  // The release is written to storage, so it survives a restart
+  const reloaded = new DocumentStore(storage);
+  await reloaded.load();
+  assert.strictEqual(reloaded.getBySlug("list")?.title, "New list");
+  assert.deepStrictEqual(reloaded.getBySlug("groceries")?.previousSlugs, []);
+});
+
+test("renaming onto another document's old slug takes it over", async () => {
+  const { store } = await makeStore("list", "notes");
+  await store.rename("list", "groceries");
+
+  const renamed = await store.rename("notes", "list");
+  assert.ok("document" in renamed);
+  assert.strictEqual(store.getBySlug("list")?.title, "notes");
+  assert.strictEqual(store.getByPreviousSlug("list"), null);
+  assert.deepStrictEqual(store.getBySlug("groceries")?.previousSlugs, []);
+});
+
+test("renaming back to an old slug stops it redirecting", async () => {
+  const { store } = await makeStore("list");
+  await store.rename("list", "groceries");
+  await store.rename("groceries", "list");
+
+  assert.strictEqual(store.getBySlug("list")?.slug, "list");
+  assert.deepStrictEqual(store.getBySlug("list")?.previousSlugs, ["groceries"]);
+  assert.strictEqual(store.getByPreviousSlug("list"), null);
+});
+
+test("flagging a template keeps it across a reload", async () => {
+  const { storage, store } = await makeStore("groceries", "packing");
+  await store.setTemplate("groceries", true);
+
+  const reloaded = new DocumentStore(storage);
+  await reloaded.load();
+  assert.strictEqual(reloaded.getBySlug("groceries")?.template, true);
+  assert.strictEqual(reloaded.getBySlug("packing")?.template, undefined);
+
+  const missing = await store.setTemplate("nope", true);
+  assert.ok("error" in missing && missing.status === 404);
+});
@@ -0,0 +1,236 @@
+import type { Document } from "./documents";
+import type { DocumentRecurrence } from "./recurrence";
+
+// The subset of DurableObjectStorage the store uses, so tests can pass a Map
+export interface DocumentStorage {
+  list<T>(): Promise<Map<string, T>>;
+  put<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<boolean>;
+}
+
+export type DocumentResult =
+  | { document: Document }
+  | { error: string; status: 400 | 404 | 409 };
+
+const notFound = { error: "Document not found", status: 404 } as const;
+const slugTaken = {
+  error: "A document with this slug already exists",
+  status: 409,
+} as const;
+
+/**
+ * Every document's metadata, held in memory with a slug → id index and
+ * written through to storage (keyed by id). Slugs a document was renamed from
+ * are indexed too, so old links can redirect, until another document takes
+ * the slug.
+ *
+ * Each operation checks and updates the in-memory state without awaiting
+ * anything in between, and only then writes to storage. So two requests can
+ * never both claim the same slug, or both modify a document from the same
+ * stale copy, however their storage writes interleave.
+ */
+export class DocumentStore {
+  private storage: DocumentStorage;
+  private documents = new Map<string, Document>();
+  private slugs = new Map<string, string>();
+  private previousSlugs = new Map<string, string>();
+
+  constructor(storage: DocumentStorage) {
+    this.storage = storage;
+  }
+
+  // Read every document from storage. Call once before anything else.
+  async load(): Promise<void> {
+    const entries = await this.storage.list<Document>();
+    this.documents.clear();
+    this.slugs.clear();
+    this.previousSlugs.clear();
+    for (const [, doc] of entries) {
+      this.documents.set(doc.id, doc);
+      this.slugs.set(doc.slug, doc.id);
+      for (const slug of doc.previousSlugs ?? []) {
+        this.previousSlugs.set(slug, doc.id);
+      }
+    }
+  }
+
+  all(): Document[] {
+    return Array.from(this.documents.values());
+  }
+
+  get(id: string): Document | null {
+    return this.documents.get(id) ?? null;
+  }
+
+  getBySlug(slug: string): Document | null {
+    const id = this.slugs.get(slug);
+    return id ? this.documents.get(id) ?? null : null;
+  }
+
+  getByPreviousSlug(slug: string): Document | null {
+    const id = this.previousSlugs.get(slug);
+    return id ? this.documents.get(id) ?? null : null;
+  }
+
+  async create(slug: string, title: string): Promise<DocumentResult> {
+    if (this.slugs.has(slug)) {
+      return slugTaken;
+    }
+
+    const now = Date.now();
+    const id = `doc-${now}-${Math.random().toString(36).substr(2, 9)}`;
+    const released = this.releasePreviousSlug(slug, id);
+    const doc: Document = {
+      id,
+      slug,
+      title,
+      content: "",
+      createdAt: now,
+      updatedAt: now,
+      archived: false,
+    };
+    return this.save(doc, released);
+  }
+
+  // Change the title and plain-text content (the slug and id are fixed)
+  async update(
+    slug: string,
+    updates: Partial<Pick<Document, "title" | "content">>
+  ): Promise<DocumentResult> {
+    const doc = this.getBySlug(slug);
+    if (!doc) {
+      return notFound;
+    }
+
+    return this.save({
+      ...doc,
+      ...(updates.title !== undefined && { title: updates.title }),
+      ...(updates.content !== undefined && { content: updates.content }),
+      updatedAt: Date.now(),
+    });
+  }
+
+  async rename(slug: string, newSlug: string): Promise<DocumentResult> {
+    const doc = this.getBySlug(slug);
+    if (!doc) {
+      return notFound;
+    }
+    if (newSlug === slug) {
+      return { document: doc };
+    }
+    if (this.slugs.has(newSlug)) {
+      return slugTaken;
+    }
+
+    const released = this.releasePreviousSlug(newSlug, doc.id);
+    this.slugs.delete(slug);
+    this.previousSlugs.set(slug, doc.id);
+    return this.save(
+      {
+        ...doc,
+        slug: newSlug,
+        // Renaming back to an old slug stops it being a redirect
+        previousSlugs: [
+          ...(doc.previousSlugs ?? []).filter((s) => s !== newSlug),
+          slug,
+        ],
+        updatedAt: Date.now(),
+      },
+      released
+    );
+  }
+
+  async setArchived(slug: string, archived: boolean): Promise<DocumentResult> {
+    const doc = this.getBySlug(slug);
+    if (!doc) {
+      return notFound;
+    }
+
+    return this.save({ ...doc, archived, updatedAt: Date.now() });
+  }
+
+  async setTemplate(slug: string, template: boolean): Promise<DocumentResult> {
+    const doc = this.getBySlug(slug);
+    if (!doc) {
+      return notFound;
+    }
+
+    return this.save({ ...doc, template, updatedAt: Date.now() });
+  }
+
+  // Scheduling isn't an edit, so this leaves updatedAt alone
+  async setRecurrence(
+    slug: string,
+    recurrence: DocumentRecurrence | null
+  ): Promise<DocumentResult> {
+    const doc = this.getBySlug(slug);
+    if (!doc) {
+      return notFound;
+    }
+
+    return this.save({ ...doc, recurrence: recurrence ?? undefined });
+  }
+
+  // Permanently delete an archived document, freeing its slug
+  async delete(slug: string): Promise<DocumentResult> {
+    const doc = this.getBySlug(slug);
+    if (!doc) {
+      return notFound;
+    }
+    if (!doc.archived) {
+      return {
+        error: "Document must be archived before it can be deleted",
+        status: 400,
+      };
+    }
+
+    this.documents.delete(doc.id);
+    this.slugs.delete(slug);
+    for (const previous of doc.previousSlugs ?? []) {
+      this.previousSlugs.delete(previous);
+    }
+    await this.storage.delete(doc.id);
+    return { document: doc };
+  }
+
+  /**
+   * Stop a slug redirecting to the document that used to have it, because
+   * `claimantId` is taking it. Returns that document if it needs saving
+   * (not when the claimant is taking back its own old slug).
+   */
+  private releasePreviousSlug(
+    slug: string,
+    claimantId: string
+  ): Document | null {
+    const ownerId = this.previousSlugs.get(slug);
+    if (!ownerId) {
+      return null;
+    }
+
+    this.previousSlugs.delete(slug);
+    const owner = this.documents.get(ownerId);
+    if (!owner || ownerId === claimantId) {
+      return null;
+    }
+
+    const updated: Document = {
+      ...owner,
+      previousSlugs: (owner.previousSlugs ?? []).filter((s) => s !== slug),
+    };
+    this.documents.set(ownerId, updated);
+    return updated;
+  }
+
+  // Write a changed document, plus another one whose old slug it took. The
+  // writes are issued together, so the Durable Object commits them as one.
+  private async save(
+    doc: Document,
+    released: Document | null = null
+  ): Promise<DocumentResult> {
+    this.documents.set(doc.id, doc);
+    this.slugs.set(doc.slug, doc.id);
+    const changed = released ? [doc, released] : [doc];
+    await Promise.all(changed.map((d) => this.storage.put(d.id, d)));
+    return { document: doc };
+  }
+}
@@ -1,4 +1,14 @@
 import { Server } from "partyserver";
+import { getYjsServer } from "../app/utils/storage.server";
+import { getPacificDate } from "./dates";
+import { DocumentStore } from "./document-store";
+import type { DocumentResult } from "./document-store";
+import { getPlainText } from "./document-format";
+import { getNextRunAt, validateRecurrence } from "./recurrence";
+import type { DocumentRecurrence, RecurrenceSettings } from "./recurrence";
+import { SearchIndex } from "./search-index";
+import type { SearchResult } from "./search-index";
+import type { Env } from "./main";
 
 export type Document = {
   id: string; // Stable identifier for the document
@@ -8,111 +18,257 @@ export type Document = {
   createdAt: number;
   updatedAt: number;
   archived: boolean;
+  template?: boolean; // Offered as a starting point when creating a document
+  recurrence?: DocumentRecurrence; // Archived and reset every week
+  previousSlugs?: string[]; // Slugs it was renamed from, oldest first; these redirect to it
 };
 
 /**
- * Simplified DocumentsServer that only provides low-level storage operations.
- * All HTTP request handling and business logic has been moved to Remix routes.
- * Storage keys use document `id` (not slug) for atomic renames.
- * This server now only handles direct storage operations:
- * - storage-list: List all documents from storage
- * - storage-get-by-id: Get a specific document by id
- * - storage-get-by-slug: Get a specific document by slug (searches all docs)
- * - storage-put: Create or update a document (uses id as key)
- * - storage-delete: Delete a document by id
+ * DocumentsServer stores document metadata. The Remix API routes call these
+ * methods directly over Durable Object RPC (see app/utils/storage.server.ts);
+ * nothing is routed to it over HTTP.
+ * Storage keys use document `id` (not slug) for atomic renames. Operations that
+ * touch a slug go through DocumentStore, which enforces slug uniqueness.
+ * The Durable Object alarm is set for the next weekly reset of a recurring
+ * document.
  */
 export class DocumentsServer extends Server {
-  async onRequest(request: Request): Promise<Response> {
-    const url = new URL(request.url);
-
-    // The pathname will be like /parties/documents-server/{room}/storage-*
-    // We need to extract the path after the room name
-    const pathMatch = url.pathname.match(
-      /^\/parties\/documents-server\/[^/]+(.*)$/
-    );
-    const path = pathMatch ? pathMatch[1] : url.pathname;
-
-    // Storage operation: List all documents
-    if (request.method === "GET" && path === "/storage-list") {
-      const showArchived = url.searchParams.get("archived") === "true";
-      const documents = await this.getAllDocuments(showArchived);
-      return Response.json(documents);
-    }
+  private store = new DocumentStore(this.ctx.storage);
 
-    // Storage operation: Get a specific document by id
-    if (request.method === "GET" && path.startsWith("/storage-get-by-id/")) {
-      const idEncoded = path.split("/").pop();
-      if (!idEncoded) {
-        return new Response("Not found", { status: 404 });
-      }
+  // Built from the store on the first search after the server starts, then
+  // kept up to date by every change
+  private searchIndex: SearchIndex | null = null;
+
+  async onStart(): Promise<void> {
+    await this.store.load();
+  }
 
-      const id = decodeURIComponent(idEncoded);
-      const doc = await this.ctx.storage.get<Document>(id);
-      if (!doc) {
-        return new Response("Not found", { status: 404 });
+  // Reset every recurring document that's due
+  async onAlarm(): Promise<void> {
+    const now = Date.now();
+    for (const doc of this.store.all()) {
+      if (doc.archived || !doc.recurrence || doc.recurrence.nextRunAt > now) {
+        continue;
       }
+      try {
+        await this.runRecurrence(doc, now);
+      } catch (error) {
+        // Skip to next week rather than retrying in a loop
+        console.error(`Failed to reset document ${doc.id}:`, error);
+      }
+      const current = this.store.get(doc.id);
+      if (current?.recurrence) {
+        await this.store.setRecurrence(current.slug, {
+          ...current.recurrence,
+          nextRunAt: getNextRunAt(current.recurrence.weekday, now),
+        });
+      }
+    }
+    await this.scheduleAlarm();
+  }
+
+  async onRequest(): Promise<Response> {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // Active documents, or archived ones, most recently edited first
+  async listDocuments(showArchived: boolean = false): Promise<Document[]> {
+    return this.store
+      .all()
+      .filter((doc) => (showArchived ? doc.archived : !doc.archived))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
 
-      return Response.json(doc);
+  async getDocumentBySlug(slug: string): Promise<Document | null> {
+    return this.store.getBySlug(slug);
+  }
+
+  // The document that used to have this slug, if no document has it now
+  async getDocumentByPreviousSlug(slug: string): Promise<Document | null> {
+    return this.store.getByPreviousSlug(slug);
+  }
+
+  async createDocument(slug: string, title: string): Promise<DocumentResult> {
+    return this.indexed(await this.store.create(slug, title));
+  }
+
+  async updateDocument(
+    slug: string,
+    updates: Partial<Pick<Document, "title" | "content">>
+  ): Promise<DocumentResult> {
+    return this.indexed(await this.store.update(slug, updates));
+  }
+
+  async renameDocument(slug: string, newSlug: string): Promise<DocumentResult> {
+    return this.indexed(await this.store.rename(slug, newSlug));
+  }
+
+  async archiveDocument(slug: string): Promise<DocumentResult> {
+    return this.indexed(await this.store.setArchived(slug, true));
+  }
+
+  async restoreDocument(slug: string): Promise<DocumentResult> {
+    let result = await this.store.setArchived(slug, false);
+    // A reset missed while archived waits for the next one, rather than
+    // wiping the document the moment it comes back
+    const recurrence = "document" in result && result.document.recurrence;
+    if (recurrence && recurrence.nextRunAt <= Date.now()) {
+      result = await this.store.setRecurrence(slug, {
+        ...recurrence,
+        nextRunAt: getNextRunAt(recurrence.weekday),
+      });
     }
+    await this.scheduleAlarm();
+    return this.indexed(result);
+  }
 
-    // Storage operation: Get a specific document by slug
-    if (request.method === "GET" && path.startsWith("/storage-get-by-slug/")) {
-      const slugEncoded = path.split("/").pop();
-      if (!slugEncoded) {
-        return new Response("Not found", { status: 404 });
+  async setTemplate(slug: string, template: boolean): Promise<DocumentResult> {
+    return this.indexed(await this.store.setTemplate(slug, template));
+  }
+
+  // Create a document with a copy of another's title and content. The copy
+  // gets its own Yjs room, so edits to either one never reach the other.
+  async duplicateDocument(
+    sourceSlug: string,
+    slug: string,
+    title: string
+  ): Promise<DocumentResult> {
+    const source = this.store.getBySlug(sourceSlug);
+    if (!source) {
+      return { error: "Document not found", status: 404 };
+    }
+    return this.copy(source, slug, title);
+  }
+
+  // Make a document reset weekly, or stop it with null
+  async setRecurrence(
+    slug: string,
+    settings: RecurrenceSettings | null
+  ): Promise<DocumentResult> {
+    let recurrence: DocumentRecurrence | null = null;
+    if (settings) {
+      const error = validateRecurrence(settings);
+      if (error) {
+        return { error, status: 400 };
+      }
+      if (
+        settings.reset === "template" &&
+        !this.store.get(settings.templateId!)?.template
+      ) {
+        return { error: "That template no longer exists", status: 400 };
       }
+      recurrence = {
+        weekday: settings.weekday,
+        reset: settings.reset,
+        ...(settings.reset === "template" && {
+          templateId: settings.templateId,
+        }),
+        nextRunAt: getNextRunAt(settings.weekday),
+      };
+    }
 
-      const slug = decodeURIComponent(slugEncoded);
+    const result = await this.store.setRecurrence(slug, recurrence);
+    await this.scheduleAlarm();
+    return this.indexed(result);
+  }
+
+  // Permanently delete an archived document
+  async deleteDocument(slug: string): Promise<DocumentResult> {
+    const result = await this.store.delete(slug);
+    if ("document" in result) {
+      this.searchIndex?.remove(result.document.id);
+    }
+    return result;
+  }
 
-      // Search through all documents to find matching slug
-      const entries = await this.ctx.storage.list<Document>();
-      for (const [, doc] of entries) {
-        if (doc.slug === slug) {
-          return Response.json(doc);
-        }
+  // Rank active and archived documents against a query
+  async search(query: string, limit?: number): Promise<SearchResult[]> {
+    if (!this.searchIndex) {
+      const index = new SearchIndex();
+      for (const doc of this.store.all()) {
+        index.add(doc);
       }
+      this.searchIndex = index;
+    }
+    return this.searchIndex.search(query, limit);
+  }
 
-      return new Response("Not found", { status: 404 });
+  private async copy(
+    source: Document,
+    slug: string,
+    title: string
+  ): Promise<DocumentResult> {
+    const result = await this.createDocument(slug, title);
+    if ("error" in result) {
+      return result;
     }
 
-    // Storage operation: Put (create or update) a document
-    // Key should be the document id
-    if (request.method === "POST" && path === "/storage-put") {
-      const body = (await request.json()) as { value: Document };
-      await this.ctx.storage.put(body.value.id, body.value);
-      return Response.json({ success: true });
+    const env = this.env as Env;
+    const sourceYjs = await getYjsServer(env, source.id);
+    const { content } = await sourceYjs.getContent();
+    const copyYjs = await getYjsServer(env, result.document.id);
+    await copyYjs.setContent(content, title);
+
+    return this.updateDocument(slug, { content: source.content });
+  }
+
+  // Archive a dated copy of a recurring document, then reset it
+  private async runRecurrence(doc: Document, now: number): Promise<void> {
+    const recurrence = doc.recurrence!;
+    const date = getPacificDate(now);
+
+    let copySlug = `${doc.slug}-${date}`;
+    for (let n = 2; this.store.getBySlug(copySlug); n++) {
+      copySlug = `${doc.slug}-${date}-${n}`;
+    }
+    const copy = await this.copy(doc, copySlug, `${doc.title} (${date})`);
+    if ("error" in copy) {
+      throw new Error(copy.error);
     }
+    await this.archiveDocument(copySlug);
 
-    // Storage operation: Delete a document by id
-    if (request.method === "POST" && path.startsWith("/storage-delete/")) {
-      const idEncoded = path.split("/").pop();
-      if (!idEncoded) {
-        return new Response("Not found", { status: 404 });
-      }
+    const env = this.env as Env;
+    const live = await getYjsServer(env, doc.id);
+    const template =
+      recurrence.reset === "template"
+        ? this.store.get(recurrence.templateId!)
+        : null;
 
-      const id = decodeURIComponent(idEncoded);
-      await this.ctx.storage.delete(id);
-      return Response.json({ success: true });
+    // Clearing checked items is the fallback if the template was deleted
+    let content: string;
+    if (template) {
+      const templateYjs = await getYjsServer(env, template.id);
+      await live.setContent((await templateYjs.getContent()).content);
+      content = template.content;
+    } else {
+      content = getPlainText(await live.clearChecked());
     }
 
-    return new Response("Not found", { status: 404 });
+    const current = this.store.get(doc.id);
+    if (current) {
+      await this.updateDocument(current.slug, { content });
+    }
   }
 
-  private async getAllDocuments(
-    showArchived: boolean = false
-  ): Promise<Document[]> {
-    const docs: Document[] = [];
+  // Wake up for the soonest reset, if any document has one
+  private async scheduleAlarm(): Promise<void> {
+    const times = this.store
+      .all()
+      .filter((doc) => !doc.archived && doc.recurrence)
+      .map((doc) => doc.recurrence!.nextRunAt);
 
-    await this.ctx.storage.list<Document>().then((entries) => {
-      for (const [, doc] of entries) {
-        // Filter by archived status
-        if (showArchived ? doc.archived : !doc.archived) {
-          docs.push(doc);
-        }
-      }
-    });
+    if (times.length === 0) {
+      await this.ctx.storage.deleteAlarm();
+    } else {
+      await this.ctx.storage.setAlarm(Math.min(...times));
+    }
+  }
 
-    // Sort by updatedAt descending
-    return docs.sort((a, b) => b.updatedAt - a.updatedAt);
+  // Keep the search index in step with a successful change
+  private indexed(result: DocumentResult): DocumentResult {
+    if ("document" in result) {
+      this.searchIndex?.add(result.document);
+    }
+    return result;
   }
 }
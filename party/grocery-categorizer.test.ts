@@ -1,11 +1,75 @@
 /**
  * Unit tests for grocery categorization
- * Run with: node --test party/grocery-categorizer.test.ts
+ * Run with: node --import tsx --test party/grocery-categorizer.test.ts
  */
 
 import { test } from "node:test";
 import assert from "node:assert";
-import { categorizeItem } from "./grocery-categorizer";
+import type Anthropic from "@anthropic-ai/sdk";
+import {
+  categorizeItem,
+  DEFAULT_DEPARTMENTS,
+  normalizeItem,
+  organizeGroceriesByDepartment,
+  validateDepartment,
+} from "./grocery-categorizer";
+import type { CategoryCache, GroceryGroup } from "./grocery-categorizer";
+import {
+  createAnthropicBackend,
+  createOpenAIBackend,
+} from "./categorizer-backends";
+import type { CategorizerBackend } from "./categorizer-backends";
+
+// An Anthropic client that answers every request by calling the organize
+// tool with `input`, and records the requests it was sent
+function stubAnthropic(input: unknown) {
+  const requests: Anthropic.MessageCreateParams[] = [];
+  const client = {
+    messages: {
+      create: async (params: Anthropic.MessageCreateParams) => {
+        requests.push(params);
+        return {
+          content: [
+            {
+              type: "tool_use",
+              id: "toolu_test",
+              name: "organize_groceries",
+              input,
+            },
+          ],
+        };
+      },
+    },
+  } as unknown as Anthropic;
+  return { client, requests };
+}
+
+// A cache kept in memory, for checking what's stored
+function memoryCache(): CategoryCache & { entries: Map<string, string> } {
+  const entries = new Map<string, string>();
+  return {
+    entries,
+    get: async (items) =>
+      Object.fromEntries(
+        items
+          .map(normalizeItem)
+          .filter((item) => entries.has(item))
+          .map((item) => [item, entries.get(item)!])
+      ),
+    set: async (departments) => {
+      for (const [item, department] of Object.entries(departments)) {
+        entries.set(item, department);
+      }
+    },
+  };
+}
+
+// Organized groups as the lines they're shown as
+const toLines = (groups: GroceryGroup[]) =>
+  groups.flatMap(({ department, items }) => [
+    `[${department}]`,
+    ...items.map((item) => item.text),
+  ]);
 
 test("salmon should be mapped to Fish Market", () => {
   const result = categorizeItem("salmon");
@@ -87,3 +151,383 @@ test("Veggie dogs should be mapped to Meat, Seafood & Deli", () => {
   const result = categorizeItem("Veggie dogs");
   assert.strictEqual(result, "Meat, Seafood & Deli");
 });
+
+test("brocoli should be mapped to Produce", () => {
+  const result = categorizeItem("brocoli");
+  assert.strictEqual(result, "Produce");
+});
+
+test("tomatos should be mapped to Produce", () => {
+  const result = categorizeItem("tomatos");
+  assert.strictEqual(result, "Produce");
+});
+
+test("chkn breast should be mapped to Meat, Seafood & Deli", () => {
+  const result = categorizeItem("chkn breast");
+  assert.strictEqual(result, "Meat, Seafood & Deli");
+});
+
+test("paper plates should be mapped to Stuff", () => {
+  const result = categorizeItem("paper plates");
+  assert.strictEqual(result, "Stuff");
+});
+
+test("bean sprouts should be mapped to Produce", () => {
+  const result = categorizeItem("bean sprouts");
+  assert.strictEqual(result, "Produce");
+});
+
+test("pies should be mapped to Bakery", () => {
+  const result = categorizeItem("pies");
+  assert.strictEqual(result, "Bakery");
+});
+
+test("plurals prefer the keyword written the same way", () => {
+  // Produce has "mint" and Pantry has "mints"
+  assert.strictEqual(categorizeItem("mint"), "Produce");
+  assert.strictEqual(categorizeItem("mints"), "Pantry");
+});
+
+test("learned overrides take precedence over keywords", async () => {
+  const result = await organizeGroceriesByDepartment(["Oat Milk", "apples"], {
+    overrides: { "oat milk": "Trader Joe's" },
+  });
+  assert.deepStrictEqual(toLines(result), [
+    "[Produce]",
+    "apples",
+    "[Trader Joe's]",
+    "Oat Milk",
+  ]);
+});
+
+test("learned items join a department that's already listed", async () => {
+  const result = await organizeGroceriesByDepartment(
+    ["bananas", "mystery snack", "xyz123"],
+    { overrides: { "mystery snack": "Produce" } }
+  );
+  assert.deepStrictEqual(toLines(result), [
+    "[Produce]",
+    "bananas",
+    "mystery snack",
+    "[Other]",
+    "xyz123",
+  ]);
+});
+
+test("items differing in case and spacing share an override", () => {
+  assert.strictEqual(normalizeItem("  Oat   MILK "), "oat milk");
+});
+
+test("a store added to the departments gets its keywords' items", async () => {
+  const departments = [
+    ...DEFAULT_DEPARTMENTS,
+    { name: "Farmers Market", keywords: ["local honey", "eggs"], store: true },
+  ];
+  assert.strictEqual(
+    categorizeItem("local honey", departments),
+    "Farmers Market"
+  );
+  // Ties between equally long keywords go to the earlier department
+  assert.strictEqual(categorizeItem("eggs", departments), "Dairy & Eggs");
+});
+
+test("organized departments follow the configured order", async () => {
+  const result = await organizeGroceriesByDepartment(
+    ["milk", "apples", "xyz123"],
+    {
+      departments: [
+        { name: "Dairy", keywords: ["milk"] },
+        { name: "Fruit", keywords: ["apples"] },
+      ],
+    }
+  );
+  assert.deepStrictEqual(toLines(result), [
+    "[Dairy]",
+    "milk",
+    "[Fruit]",
+    "apples",
+    "[Other]",
+    "xyz123",
+  ]);
+});
+
+test("departments are tidied up before they're saved", () => {
+  assert.deepStrictEqual(
+    validateDepartment({
+      name: "  Farmers   Market ",
+      keywords: ["Honey", " honey ", "", "Raw  Milk"],
+      store: false,
+    }),
+    { name: "Farmers Market", keywords: ["honey", "raw milk"] }
+  );
+  assert.ok("error" in validateDepartment({ name: " ", keywords: [] }));
+  assert.ok("error" in validateDepartment({ name: "other", keywords: [] }));
+});
+
+test("duplicate items are merged and grouped by name", async () => {
+  const result = await organizeGroceriesByDepartment([
+    "milk",
+    "2 gallons milk",
+    "Apples",
+    "3 apple",
+  ]);
+  assert.deepStrictEqual(toLines(result), [
+    "[Produce]",
+    "3 apple",
+    "[Dairy & Eggs]",
+    "2 gallons milk",
+  ]);
+  assert.deepStrictEqual(result[1].items[0].sources, [
+    "milk",
+    "2 gallons milk",
+  ]);
+});
+
+test("AI answers come back as groups in department order", async () => {
+  const { client, requests } = stubAnthropic({
+    departments: [
+      { department: "Dairy & Eggs", items: ["Oat milk"] },
+      { department: "Produce", items: ["apples"] },
+    ],
+  });
+  const result = await organizeGroceriesByDepartment(
+    ["apples", "2 cartons oat milk"],
+    { backend: createAnthropicBackend(client) }
+  );
+
+  assert.deepStrictEqual(toLines(result), [
+    "[Produce]",
+    "apples",
+    "[Dairy & Eggs]",
+    "2 cartons oat milk",
+  ]);
+  // Only the names are sent, and the tool limits the departments
+  assert.match(String(requests[0].messages[0].content), /- oat milk$/m);
+  assert.deepStrictEqual(requests[0].tool_choice, {
+    type: "tool",
+    name: "organize_groceries",
+  });
+});
+
+test("items the AI leaves out, renames or repeats are placed once", async () => {
+  const { client } = stubAnthropic({
+    departments: [
+      { department: "Produce", items: ["apples", "Bananas", "apples"] },
+      { department: "Bakery", items: ["sourdough loaf", "bananas"] },
+      { department: "Candy Aisle", items: ["milk"] },
+    ],
+  });
+  const result = await organizeGroceriesByDepartment(
+    ["apples", "bananas", "bread", "milk"],
+    { backend: createAnthropicBackend(client) }
+  );
+
+  // "sourdough loaf" is made up and Candy Aisle isn't a department, so bread
+  // and milk are categorized by keyword
+  assert.deepStrictEqual(toLines(result), [
+    "[Produce]",
+    "apples",
+    "bananas",
+    "[Dairy & Eggs]",
+    "milk",
+    "[Bakery]",
+    "bread",
+  ]);
+});
+
+test("a malformed AI answer falls back to keywords", async () => {
+  const { client } = stubAnthropic({ departments: "Produce: apples" });
+  const result = await organizeGroceriesByDepartment(["apples", "milk"], {
+    backend: createAnthropicBackend(client),
+  });
+  assert.deepStrictEqual(toLines(result), [
+    "[Produce]",
+    "apples",
+    "[Dairy & Eggs]",
+    "milk",
+  ]);
+});
+
+test("OpenAI-compatible backends are asked for JSON", async () => {
+  const realFetch = globalThis.fetch;
+  let request: { url: string; body: any } | null = null;
+  globalThis.fetch = (async (url: string, init: RequestInit) => {
+    request = { url, body: JSON.parse(String(init.body)) };
+    const answer = {
+      departments: [{ department: "Bakery", items: ["bread"] }],
+    };
+    return Response.json({
+      choices: [{ message: { content: JSON.stringify(answer) } }],
+    });
+  }) as typeof fetch;
+
+  try {
+    const result = await organizeGroceriesByDepartment(["bread"], {
+      backend: createOpenAIBackend({
+        baseUrl: "http://homeserver:11434/v1/",
+        model: "llama3.1",
+      }),
+    });
+    assert.deepStrictEqual(toLines(result), ["[Bakery]", "bread"]);
+    assert.strictEqual(
+      request!.url,
+      "http://homeserver:11434/v1/chat/completions"
+    );
+    assert.strictEqual(request!.body.model, "llama3.1");
+    assert.deepStrictEqual(request!.body.response_format, {
+      type: "json_object",
+    });
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+});
+
+test("a slow backend is given up on in favor of keywords", async () => {
+  const slow: CategorizerBackend = {
+    name: "slow",
+    categorize: () => new Promise(() => {}),
+  };
+  const result = await organizeGroceriesByDepartment(["apples"], {
+    backend: slow,
+    timeoutMs: 20,
+  });
+  assert.deepStrictEqual(toLines(result), ["[Produce]", "apples"]);
+});
+
+test("a failing backend stops being called for a while", async () => {
+  let calls = 0;
+  const failing: CategorizerBackend = {
+    name: "failing",
+    categorize: async () => {
+      calls++;
+      throw new Error("connection refused");
+    },
+  };
+  for (let i = 0; i < 5; i++) {
+    const result = await organizeGroceriesByDepartment(["milk"], {
+      backend: failing,
+    });
+    assert.deepStrictEqual(toLines(result), ["[Dairy & Eggs]", "milk"]);
+  }
+  assert.strictEqual(calls, 3);
+});
+
+test("cached items aren't sent to the backend again", async () => {
+  const sent: string[][] = [];
+  const backend: CategorizerBackend = {
+    name: "cached",
+    categorize: async (items) => {
+      sent.push(items);
+      return {
+        departments: [
+          { department: "Produce", items: items.filter((i) => i !== "gum") },
+          { department: "Other", items: items.filter((i) => i === "gum") },
+        ],
+      };
+    },
+  };
+  const cache = memoryCache();
+
+  await organizeGroceriesByDepartment(["apples", "gum"], { backend, cache });
+  const result = await organizeGroceriesByDepartment(
+    ["gum", "Apples", "kale"],
+    { backend, cache }
+  );
+
+  // Items in Other are tried again, in case the backend does better next time
+  assert.deepStrictEqual(sent, [
+    ["apples", "gum"],
+    ["gum", "kale"],
+  ]);
+  assert.deepStrictEqual(toLines(result), [
+    "[Produce]",
+    "Apples",
+    "kale",
+    "[Other]",
+    "gum",
+  ]);
+  assert.deepStrictEqual(Object.fromEntries(cache.entries), {
+    apples: "Produce",
+    kale: "Produce",
+  });
+});
+
+test("keyword results are cached too", async () => {
+  const cache = memoryCache();
+  await organizeGroceriesByDepartment(["2 gallons milk", "mystery snack"], {
+    cache,
+  });
+  assert.deepStrictEqual(Object.fromEntries(cache.entries), {
+    milk: "Dairy & Eggs",
+  });
+});
+
+test("keyword guesses aren't cached when the backend fails", async () => {
+  const sent: string[][] = [];
+  let failing = true;
+  const backend: CategorizerBackend = {
+    name: "flaky",
+    categorize: async (items) => {
+      sent.push(items);
+      if (failing) {
+        throw new Error("timed out");
+      }
+      return { departments: [{ department: "Produce", items }] };
+    },
+  };
+  const cache = memoryCache();
+
+  const guessed = await organizeGroceriesByDepartment(["apples"], {
+    backend,
+    cache,
+  });
+  assert.deepStrictEqual(toLines(guessed), ["[Produce]", "apples"]);
+  assert.strictEqual(cache.entries.size, 0);
+
+  failing = false;
+  await organizeGroceriesByDepartment(["apples"], { backend, cache });
+  assert.deepStrictEqual(sent, [["apples"], ["apples"]]);
+  assert.deepStrictEqual(Object.fromEntries(cache.entries), {
+    apples: "Produce",
+  });
+});
+
+test("only items the backend placed are cached", async () => {
+  const backend: CategorizerBackend = {
+    name: "forgetful",
+    categorize: async () => ({
+      departments: [{ department: "Produce", items: ["apples"] }],
+    }),
+  };
+  const cache = memoryCache();
+
+  const result = await organizeGroceriesByDepartment(["apples", "milk"], {
+    backend,
+    cache,
+  });
+
+  assert.deepStrictEqual(toLines(result), [
+    "[Produce]",
+    "apples",
+    "[Dairy & Eggs]",
+    "milk",
+  ]);
+  assert.deepStrictEqual(Object.fromEntries(cache.entries), {
+    apples: "Produce",
+  });
+});
+
+test("a cache that fails is skipped", async () => {
+  const broken: CategoryCache = {
+    get: async () => {
+      throw new Error("storage unavailable");
+    },
+    set: async () => {
+      throw new Error("storage unavailable");
+    },
+  };
+  const result = await organizeGroceriesByDepartment(["apples"], {
+    cache: broken,
+  });
+  assert.deepStrictEqual(toLines(result), ["[Produce]", "apples"]);
+});
@@ -1,20 +1,36 @@
 /**
  * Grocery item categorization system
- * Categorizes grocery items by department using either:
- * 1. Anthropic Claude AI (if API key provided)
- * 2. Keyword matching against common grocery items (fallback)
+ * Categorizes grocery items by department using:
+ * 1. Corrections the household has made before (learned overrides)
+ * 2. A language model backend, if one is configured (see
+ *    party/categorizer-backends.ts)
+ * 3. Keyword matching against common grocery items (fallback), tolerant of
+ *    plurals and typos (see party/keyword-index.ts)
  */
 
-import Anthropic from "@anthropic-ai/sdk";
+import { normalizeItem } from "../app/utils/category-learning";
+import { getDepartmentNames } from "./categorizer-backends";
+import type { CategorizerBackend } from "./categorizer-backends";
+import { CircuitBreaker } from "./circuit-breaker";
+import { KeywordIndex } from "./keyword-index";
+import { mergeGroceryItems, parseGroceryItem } from "./grocery-items";
+import type { GroceryItem } from "./grocery-items";
 
-type Department = {
+export { normalizeItem };
+
+// A heading groceries are sorted under. The household can edit these (see
+// CategorizerServer in party/categorizer.ts); these defaults are used until
+// they do.
+export type Department = {
   name: string;
-  keywords: string[];
+  keywords: string[]; // Lowercase words and phrases that put an item here
+  store?: boolean; // A store of its own rather than a section of the usual one
 };
 
-// Comprehensive list of grocery departments with common items
-// Organized by typical grocery store layout
-const DEPARTMENTS: Department[] = [
+// Comprehensive list of grocery departments with common items, in the order
+// they're listed after organizing: roughly a walk through the store, then the
+// other stores. Earlier departments win ties between equally long keywords.
+export const DEFAULT_DEPARTMENTS: Department[] = [
   {
     name: "Produce",
     keywords: [
@@ -152,6 +168,7 @@ const DEPARTMENTS: Department[] = [
       "chard",
       "collard",
       "brussels sprout",
+      "bean sprout",
       "artichoke",
       "fennel",
       "bok choy",
@@ -505,88 +522,6 @@ const DEPARTMENTS: Department[] = [
       "strudel",
     ],
   },
-  {
-    name: "Frozen Foods",
-    keywords: [
-      "frozen",
-      "ice cream",
-      "gelato",
-      "sorbet",
-      "frozen yogurt",
-      "haagen-dazs",
-      "haagen dazs",
-      "ben and jerry",
-      "ben & jerry",
-      "breyers",
-      "blue bunny",
-      "talenti",
-      "popsicle",
-      "popsicles",
-      "ice cream sandwich",
-      "ice cream bar",
-      "klondike",
-      "drumstick",
-      "good humor",
-      "frozen fruit",
-      "frozen vegetables",
-      "frozen veggies",
-      "frozen berries",
-      "frozen peas",
-      "frozen corn",
-      "frozen broccoli",
-
-      "frozen pizza",
-      "frozen dinner",
-      "tv dinner",
-      "frozen meal",
-      "frozen entree",
-      "frozen chicken",
-      "frozen fish",
-      "frozen shrimp",
-      "fish sticks",
-      "chicken nugget",
-      "chicken nuggets",
-      "nuggie",
-      "nuggies",
-      "chicken tender",
-      "chicken tenders",
-      "tenders",
-      "corn dog",
-      "corn dogs",
-      "mini corn dogs",
-      "tater tots",
-      "french fries",
-      "fries",
-      "frozen fries",
-      "onion rings",
-      "mozzarella sticks",
-      "frozen appetizer",
-
-      "frozen waffle",
-      "waffles",
-      "eggo",
-      "eggos",
-      "frozen pancake",
-      "pancakes",
-      "frozen breakfast",
-      "breakfast burrito",
-      "hot pocket",
-      "hot pockets",
-      "lean cuisine",
-      "hungry man",
-      "stouffers",
-      "marie callender",
-      "frozen burrito",
-      "frozen lasagna",
-      "frozen pot pie",
-      "frozen stir fry",
-      "frozen pasta",
-      "frozen ravioli",
-      "bagel bites",
-      "pizza rolls",
-      "totinos",
-    ],
-  },
   {
     name: "Pantry",
     keywords: [
@@ -1362,8 +1297,91 @@ const DEPARTMENTS: Department[] = [
       "pet shampoo",
     ],
   },
+  {
+    name: "Frozen Foods",
+    keywords: [
+      "frozen",
+      "ice cream",
+      "gelato",
+      "sorbet",
+      "frozen yogurt",
+      "haagen-dazs",
+      "haagen dazs",
+      "ben and jerry",
+      "ben & jerry",
+      "breyers",
+      "blue bunny",
+      "talenti",
+      "popsicle",
+      "popsicles",
+      "ice cream sandwich",
+      "ice cream bar",
+      "klondike",
+      "drumstick",
+      "good humor",
+      "frozen fruit",
+      "frozen vegetables",
+      "frozen veggies",
+      "frozen berries",
+      "frozen peas",
+      "frozen corn",
+      "frozen broccoli",
+
+      "frozen pizza",
+      "frozen dinner",
+      "tv dinner",
+      "frozen meal",
+      "frozen entree",
+      "frozen chicken",
+      "frozen fish",
+      "frozen shrimp",
+      "fish sticks",
+      "chicken nugget",
+      "chicken nuggets",
+      "nuggie",
+      "nuggies",
+      "chicken tender",
+      "chicken tenders",
+      "tenders",
+      "corn dog",
+      "corn dogs",
+      "mini corn dogs",
+      "tater tots",
+      "french fries",
+      "fries",
+      "frozen fries",
+      "onion rings",
+      "mozzarella sticks",
+      "frozen appetizer",
+
+      "frozen waffle",
+      "waffles",
+      "eggo",
+      "eggos",
+      "frozen pancake",
+      "pancakes",
+      "frozen breakfast",
+      "breakfast burrito",
+      "hot pocket",
+      "hot pockets",
+      "lean cuisine",
+      "hungry man",
+      "stouffers",
+      "marie callender",
+      "frozen burrito",
+      "frozen lasagna",
+      "frozen pot pie",
+      "frozen stir fry",
+      "frozen pasta",
+      "frozen ravioli",
+      "bagel bites",
+      "pizza rolls",
+      "totinos",
+    ],
+  },
   {
     name: "Trader Joe's",
+    store: true,
     keywords: [
       "chai concentrate",
       "high-protein tofu",
@@ -1377,6 +1395,7 @@ const DEPARTMENTS: Department[] = [
   },
   {
     name: "Costco",
+    store: true,
     keywords: [
       "pesto",
       "paneer",
@@ -1389,6 +1408,7 @@ const DEPARTMENTS: Department[] = [
   },
   {
     name: "New Seasons",
+    store: true,
     keywords: [
       "loose chicken sausage",
       "loose sausage",
@@ -1405,10 +1425,12 @@ const DEPARTMENTS: Department[] = [
   },
   {
     name: "Fish Market",
+    store: true,
     keywords: ["salmon", "scallops", "fish market"],
   },
   {
     name: "Winco",
+    store: true,
     keywords: [
       "dry beans",
       "dried beans",
@@ -1420,175 +1442,367 @@ const DEPARTMENTS: Department[] = [
   },
 ];
 
+// Items organized under one department heading
+export type GroceryGroup = {
+  department: string;
+  items: GroceryItem[];
+};
+
+// Where items were categorized before, so they needn't be again. Kept by
+// CategorizerServer for the current version of the departments.
+export type CategoryCache = {
+  // Departments by normalizeItem(item), for the items that have one
+  get(items: string[]): Promise<Record<string, string>>;
+  set(departments: Record<string, string>): Promise<void>;
+};
+
+/**
+ * Checks a department from the settings page and tidies it up
+ * @param department The department as entered
+ * @returns The department with a trimmed name and lowercase, de-duplicated
+ * keywords, or an error if the name is missing or reserved
+ */
+export function validateDepartment(
+  department: Department
+): Department | { error: string } {
+  const name = department.name.trim().replace(/\s+/g, " ");
+  if (!name) {
+    return { error: "Department name is required" };
+  }
+  if (name.toLowerCase() === "other") {
+    return { error: "Other is kept for items that match no department" };
+  }
+
+  const keywords = Array.from(
+    new Set(department.keywords.map(normalizeItem).filter(Boolean))
+  );
+  return {
+    name,
+    keywords,
+    ...(department.store && { store: true }),
+  };
+}
+
+// Keyword indexes by the departments they were built from, so categorizing
+// a list builds one index. Departments aren't changed in place once used.
+const keywordIndexes = new WeakMap<Department[], KeywordIndex>();
+
 /**
  * Categorizes a single grocery item into a department
+ * Matches whole words, ignoring plurals, and tries misspellings and
+ * abbreviations only when nothing matches as written (see KeywordIndex).
  * @param item The grocery item to categorize
+ * @param departments Departments to choose from, in display order
  * @returns The department name or "Other" if no match found
  */
-export function categorizeItem(item: string): string {
-  const normalizedItem = item.toLowerCase().trim();
-
-  // Track all matching keywords with their departments and lengths
-  const matches: Array<{
-    department: string;
-    keyword: string;
-    length: number;
-  }> = [];
-
-  // Check each department's keywords
-  for (const department of DEPARTMENTS) {
-    for (const keyword of department.keywords) {
-      // Escape special regex characters in the keyword
-      const escapedKeyword = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-
-      // Check if the item contains the keyword
-      // Use word boundaries to avoid partial matches (e.g., "pea" in "peach")
-      const regex = new RegExp(`\\b${escapedKeyword}\\b`, "i");
-      if (regex.test(normalizedItem)) {
-        matches.push({
-          department: department.name,
-          keyword: keyword,
-          length: keyword.length,
-        });
-      }
-    }
+export function categorizeItem(
+  item: string,
+  departments: Department[] = DEFAULT_DEPARTMENTS
+): string {
+  let index = keywordIndexes.get(departments);
+  if (!index) {
+    index = new KeywordIndex(departments);
+    keywordIndexes.set(departments, index);
   }
 
-  // If we have matches, return the one with the longest keyword
-  // (more specific matches are preferred)
-  if (matches.length > 0) {
-    matches.sort((a, b) => b.length - a.length);
-    return matches[0].department;
-  }
+  // The longest matching keyword wins, as it's the most specific
+  return index.match(item) ?? "Other";
+}
+
+// Item names sorted into departments, each in the order it was sorted
+type Assignments = Map<string, string[]>;
 
-  // If no match found, return "Other"
-  return "Other";
+function assign(assignments: Assignments, department: string, item: string) {
+  assignments.set(department, [...(assignments.get(department) ?? []), item]);
 }
 
 /**
  * Organizes a list of grocery items by department using keyword matching
  * @param items Array of grocery item names
- * @returns Array of strings with department headers and items
+ * @param departments Departments to choose from
+ * @returns Item names by department
  */
-function organizeByKeywords(items: string[]): string[] {
-  // Categorize each item
-  const categorized = new Map<string, string[]>();
+function organizeByKeywords(
+  items: string[],
+  departments: Department[]
+): Assignments {
+  const assignments: Assignments = new Map();
+  for (const item of items) {
+    assign(assignments, categorizeItem(item, departments), item.trim());
+  }
+  return assignments;
+}
 
-  items.forEach((item) => {
-    const department = categorizeItem(item);
-    if (!categorized.has(department)) {
-      categorized.set(department, []);
+/**
+ * Checks a model's answer against the items it was asked about
+ * @param input The answer, as returned by CategorizerBackend.categorize
+ * @param items The item names it was given
+ * @param departmentNames The departments it could choose from
+ * @returns Items by department, and the items it left out. Items it made up,
+ * renamed or filed under an unknown department are dropped, as are second
+ * mentions of an item, so every item appears exactly once across the two.
+ */
+function readAnswer(
+  input: unknown,
+  items: string[],
+  departmentNames: string[]
+): { assignments: Assignments; missing: string[] } {
+  const unplaced = new Map<string, string[]>();
+  for (const item of items) {
+    const key = normalizeItem(item);
+    unplaced.set(key, [...(unplaced.get(key) ?? []), item]);
+  }
+
+  const assignments: Assignments = new Map();
+  const groups = (input as { departments?: unknown })?.departments;
+  for (const group of Array.isArray(groups) ? groups : []) {
+    const { department, items: named } = (group ?? {}) as {
+      department?: unknown;
+      items?: unknown;
+    };
+    if (
+      typeof department !== "string" ||
+      !departmentNames.includes(department) ||
+      !Array.isArray(named)
+    ) {
+      continue;
     }
-    categorized.get(department)!.push(item.trim());
-  });
 
-  // Define a preferred order for departments
-  const departmentOrder = [
-    "Produce",
-    "Meat, Seafood & Deli",
-    "Dairy & Eggs",
-    "Bakery",
-    "Pantry",
-    "Stuff",
-    "Frozen Foods",
-    "Trader Joe's",
-    "Costco",
-    "New Seasons",
-    "Fish Market",
-    "Winco",
-    "Other",
-  ];
-
-  // Build the result with departments in the preferred order
-  const result: string[] = [];
-
-  for (const department of departmentOrder) {
-    const departmentItems = categorized.get(department);
-    if (departmentItems && departmentItems.length > 0) {
-      result.push(`[${department}]`);
-      result.push(...departmentItems);
+    for (const name of named) {
+      const item =
+        typeof name === "string"
+          ? unplaced.get(normalizeItem(name))?.shift()
+          : undefined;
+      if (item !== undefined) {
+        assign(assignments, department, item);
+      }
     }
   }
 
-  return result;
+  const missing = Array.from(unplaced.values()).flat();
+  return { assignments, missing };
+}
+
+// How long Group Items waits for a model before using keyword matching
+const BACKEND_TIMEOUT_MS = 4000;
+
+// One breaker per backend, so a backend that's down is skipped for a minute
+// instead of making every Group Items wait out the timeout. Kept per worker
+// isolate, which is enough to spare a household from repeated waits.
+const breakers = new Map<string, CircuitBreaker>();
+
+// Rejects once `signal` is aborted, for backends that don't stop by themselves
+function whenAborted(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener("abort", () =>
+      reject(new Error("Categorizer backend timed out"))
+    );
+  });
 }
 
+// Every item's department, and the ones that are worth caching: the
+// backend's answers, or keyword matching's when there's no backend. Keyword
+// guesses made because the backend failed or missed an item aren't cached, so
+// the backend is asked about those items again.
+type Organized = {
+  assignments: Assignments;
+  answered: Assignments;
+};
+
 /**
- * Organizes a list of grocery items by department using Anthropic Claude AI
- * @param items Array of grocery item names
- * @param anthropicClient Initialized Anthropic client
- * @returns Array of strings with department headers and items
+ * Organizes items with a model backend, or keyword matching if there isn't
+ * one, it's failing, or it's too slow. Anything the model doesn't place is
+ * categorized by keyword matching too.
+ * @param items Array of non-empty grocery item names
+ * @param departments Departments to choose from, in display order
+ * @param backend The model backend, or null for keyword matching alone
+ * @param timeoutMs How long to wait for the backend
+ * @returns Item names by department, and those the backend answered for
  */
-async function organizeByAI(
+async function organizeWithBackend(
   items: string[],
-  anthropicClient: Anthropic
-): Promise<string[]> {
-  const validItems = items.filter((item) => item.trim().length > 0);
+  departments: Department[],
+  backend: CategorizerBackend | null,
+  timeoutMs: number
+): Promise<Organized> {
+  if (!backend) {
+    const assignments = organizeByKeywords(items, departments);
+    return { assignments, answered: assignments };
+  }
 
-  if (validItems.length === 0) {
-    return [];
+  let breaker = breakers.get(backend.name);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(backend.name, breaker);
+  }
+  if (!breaker.canTry()) {
+    console.warn(
+      `Skipping ${backend.name} categorizer after repeated failures, using keyword matching`
+    );
+    return {
+      assignments: organizeByKeywords(items, departments),
+      answered: new Map(),
+    };
   }
 
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  let answer: unknown;
   try {
-    const prompt = `You are a helpful assistant that organizes grocery lists by store department.
-
-Given the following grocery items, organize them into logical grocery store departments (like Produce, Meat/Seafood/Deli, Dairy, Bakery, Pantry, Stuff, Frozen Foods, etc.) or specific stores (like Trader Joe's, Costco, New Seasons, Fish Market, Winco).
-
-Return the organized list in this exact format:
-- Each department name should be on its own line, surrounded by square brackets like [Department Name]
-- After each department name, list all items that belong to that department, one per line
-- Do not number the items, just list them
-- Keep the original item names exactly as provided
-- If an item doesn't clearly fit into a grocery department, put it in [Other]
-
-Grocery items:
-${validItems.map((item) => `- ${item}`).join("\n")}
-
-Return only the organized list, no other text or explanations.`;
-
-    const response = await anthropicClient.messages.create({
-      model: "claude-3-5-haiku-20241022",
-      max_tokens: 2000,
-      temperature: 0.3, // Lower temperature for more consistent categorization
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-    });
-
-    const content = response.content[0];
-    if (!content || content.type !== "text") {
-      console.error("No text content returned from Anthropic");
-      return organizeByKeywords(validItems);
-    }
+    answer = await Promise.race([
+      backend.categorize(items, departments, controller.signal),
+      whenAborted(controller.signal),
+    ]);
+    breaker.recordSuccess();
+  } catch (error) {
+    breaker.recordFailure();
+    console.error(`Error calling ${backend.name} categorizer:`, error);
+    // Fall back to keyword-based categorization if the call fails
+    return {
+      assignments: organizeByKeywords(items, departments),
+      answered: new Map(),
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
 
-    // Parse the response into our expected format
-    const lines = content.text
-      .split("\n")
-      .map((line: string) => line.trim())
-      .filter((line: string) => line.length > 0 && !line.startsWith("-"));
+  const { assignments: answered, missing } = readAnswer(
+    answer,
+    items,
+    getDepartmentNames(departments)
+  );
+  if (missing.length === 0) {
+    return { assignments: answered, answered };
+  }
+
+  console.warn(
+    `${backend.name} categorizer didn't place ${missing.length} items, using keyword matching for them`
+  );
+  const assignments: Assignments = new Map(
+    Array.from(answered, ([department, names]) => [department, [...names]])
+  );
+  for (const [department, names] of organizeByKeywords(missing, departments)) {
+    names.forEach((name) => assign(assignments, department, name));
+  }
+  return { assignments, answered };
+}
 
-    return lines;
+/**
+ * Puts organized items in display order and matches them back up with the
+ * parsed items they name
+ * @param assignments Item names by department
+ * @param items The parsed and merged items that were organized
+ * @param departments The household's departments, in display order
+ * @returns The items grouped by department: the household's departments
+ * first, then any other learned ones, then Other. Items within a department
+ * stay in list order.
+ */
+function toGroups(
+  assignments: Assignments,
+  items: GroceryItem[],
+  departments: Department[]
+): GroceryGroup[] {
+  const byName = new Map<string, GroceryItem[]>();
+  for (const item of items) {
+    const name = normalizeItem(item.name);
+    byName.set(name, [...(byName.get(name) ?? []), item]);
+  }
+  const listOrder = (item: GroceryItem) => {
+    const index = items.indexOf(item);
+    return index === -1 ? items.length : index;
+  };
+
+  const order = Array.from(
+    new Set([
+      ...departments.map(({ name }) => name),
+      ...Array.from(assignments.keys()).filter((name) => name !== "Other"),
+      "Other",
+    ])
+  );
+
+  return order
+    .filter((department) => assignments.has(department))
+    .map((department) => ({
+      department,
+      items: assignments
+        .get(department)!
+        .map(
+          (name) =>
+            byName.get(normalizeItem(name))?.shift() ?? parseGroceryItem(name)
+        )
+        .sort((a, b) => listOrder(a) - listOrder(b)),
+    }));
+}
+
+// Cached departments for `items`. A cache that can't be read is skipped.
+async function readCache(
+  cache: CategoryCache,
+  items: string[]
+): Promise<Record<string, string>> {
+  if (items.length === 0) {
+    return {};
+  }
+  try {
+    return await cache.get(items);
+  } catch (error) {
+    console.error("Error reading categorization cache:", error);
+    return {};
+  }
+}
+
+// Remember where items were just categorized. Items in Other aren't
+// remembered, so they're tried again.
+async function writeCache(cache: CategoryCache, assignments: Assignments) {
+  const departments: Record<string, string> = {};
+  for (const [department, items] of assignments) {
+    if (department === "Other") continue;
+    for (const item of items) {
+      departments[normalizeItem(item)] = department;
+    }
+  }
+  if (Object.keys(departments).length === 0) {
+    return;
+  }
+
+  try {
+    await cache.set(departments);
   } catch (error) {
-    console.error("Error calling Anthropic API:", error);
-    // Fall back to keyword-based categorization if API call fails
-    return organizeByKeywords(validItems);
+    console.error("Error writing categorization cache:", error);
   }
 }
 
 /**
  * Main function to organize grocery items by department
- * Automatically chooses between AI and keyword-based categorization
- * @param items Array of grocery item names
- * @param apiKey Optional Anthropic API key. If provided, uses AI categorization.
- * @returns Array of strings with department headers and items
+ * Each line is split into its amount and name, and lines for the same item
+ * are merged. Items with a learned override go straight to that department;
+ * the rest are categorized by name: from the cache if they've been seen
+ * before, and otherwise with a model backend or keyword matching. Every item
+ * comes back exactly once.
+ * @param items Array of grocery list lines, e.g. "2 gallons milk"
+ * @param options.backend Model backend from getCategorizerBackend(), or null
+ * for keyword matching alone
+ * @param options.overrides Learned departments, keyed by normalizeItem(name)
+ * @param options.departments The household's departments, in display order
+ * @param options.timeoutMs How long to wait for the backend
+ * @param options.cache Where items were categorized before
+ * @returns The merged items, grouped by department in display order
  */
 export async function organizeGroceriesByDepartment(
   items: string[],
-  apiKey?: string
-): Promise<string[]> {
+  {
+    backend = null,
+    overrides = {},
+    departments = DEFAULT_DEPARTMENTS,
+    timeoutMs = BACKEND_TIMEOUT_MS,
+    cache,
+  }: {
+    backend?: CategorizerBackend | null;
+    overrides?: Record<string, string>;
+    departments?: Department[];
+    timeoutMs?: number;
+    cache?: CategoryCache;
+  } = {}
+): Promise<GroceryGroup[]> {
   // Filter out empty items
   const validItems = items.filter((item) => item.trim().length > 0);
 
@@ -1596,43 +1810,64 @@ export async function organizeGroceriesByDepartment(
     return [];
   }
 
-  // If API key is provided, try AI categorization
-  if (apiKey && apiKey.trim() !== "") {
-    try {
-      const anthropic = new Anthropic({ apiKey });
-      return await organizeByAI(validItems, anthropic);
-    } catch (error) {
-      console.warn(
-        "Failed to initialize Anthropic client, falling back to keyword matching:",
-        error
-      );
-      return organizeByKeywords(validItems);
+  const merged = mergeGroceryItems(validItems.map(parseGroceryItem));
+
+  const learned: [string, string][] = [];
+  const unmatched: string[] = [];
+  for (const { name } of merged) {
+    const department = overrides[normalizeItem(name)];
+    if (department) {
+      learned.push([department, name]);
+    } else {
+      unmatched.push(name);
     }
   }
 
-  // Otherwise, use keyword-based categorization
-  console.log("Using keyword-based categorization (no API key provided)");
-  return organizeByKeywords(validItems);
+  const cached = cache ? await readCache(cache, unmatched) : {};
+  const uncached = unmatched.filter((name) => !cached[normalizeItem(name)]);
+
+  const { assignments, answered }: Organized =
+    uncached.length > 0
+      ? await organizeWithBackend(uncached, departments, backend, timeoutMs)
+      : { assignments: new Map(), answered: new Map() };
+  if (cache) {
+    await writeCache(cache, answered);
+  }
+
+  for (const name of unmatched) {
+    const department = cached[normalizeItem(name)];
+    if (department) {
+      assign(assignments, department, name);
+    }
+  }
+  for (const [department, name] of learned) {
+    assign(assignments, department, name);
+  }
+  return toGroups(assignments, merged, departments);
 }
 
 /**
  * Gets statistics about the categorization
  * @param items Array of grocery items
+ * @param departments Departments to choose from
  * @returns Object with categorization statistics
  */
-export function getCategorizationStats(items: string[]): {
+export function getCategorizationStats(
+  items: string[],
+  departments: Department[] = DEFAULT_DEPARTMENTS
+): {
   totalItems: number;
   categorizedItems: number;
   uncategorizedItems: number;
   departments: Map<string, number>;
 } {
-  const departments = new Map<string, number>();
+  const counts = new Map<string, number>();
   let categorizedItems = 0;
   let uncategorizedItems = 0;
 
   items.forEach((item) => {
-    const department = categorizeItem(item);
-    departments.set(department, (departments.get(department) || 0) + 1);
+    const department = categorizeItem(item, departments);
+    counts.set(department, (counts.get(department) || 0) + 1);
 
     if (department === "Other") {
       uncategorizedItems++;
@@ -1645,6 +1880,6 @@ export function getCategorizationStats(items: string[]): {
     totalItems: items.length,
     categorizedItems,
     uncategorizedItems,
-    departments,
+    departments: counts,
   };
 }
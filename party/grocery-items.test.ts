@@ -0,0 +1,57 @@
+/**
+ * Unit tests for grocery quantity parsing and duplicate merging
+ * Run with: node --import tsx --test party/grocery-items.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { mergeGroceryItems, parseGroceryItem } from "./grocery-items";
+
+const merge = (...lines: string[]) =>
+  mergeGroceryItems(lines.map(parseGroceryItem)).map((item) => item.text);
+
+test("amounts and units are split from the item name", () => {
+  const cases: [string, string, number, string | null][] = [
+    ["2 gallons milk", "milk", 2, "gallon"],
+    ["1 1/2 cups flour", "flour", 1.5, "cup"],
+    ["½ lb butter", "butter", 0.5, "lb"],
+    ["500g pasta", "pasta", 500, "g"],
+    ["a bag of chips", "chips", 1, "bag"],
+    ["2x avocados", "avocados", 2, null],
+    ["eggs x12", "eggs", 12, null],
+    ["three lemons", "lemons", 3, null],
+  ];
+  for (const [line, name, quantity, unit] of cases) {
+    const item = parseGroceryItem(line);
+    assert.strictEqual(item.name, name, line);
+    assert.deepStrictEqual(item.amounts, [{ quantity, unit }], line);
+  }
+});
+
+test("lines without an amount are kept as written", () => {
+  for (const line of ["2% milk", "a1 sauce", "grapes", "7up"]) {
+    const item = parseGroceryItem(line);
+    assert.strictEqual(item.name, line);
+    assert.deepStrictEqual(item.amounts, []);
+  }
+  assert.strictEqual(parseGroceryItem("2 grapes").name, "grapes");
+});
+
+test("duplicates are merged and compatible amounts added up", () => {
+  assert.deepStrictEqual(merge("milk", "2 gallons milk"), ["2 gallons milk"]);
+  assert.deepStrictEqual(merge("1 gallon milk", "2 quarts Milk"), [
+    "1.5 gallons milk",
+  ]);
+  assert.deepStrictEqual(merge("2 eggs", "1 dozen eggs"), ["14 eggs"]);
+  assert.deepStrictEqual(merge("Tomatoes", "tomato", "3 peaches", "peach"), [
+    "Tomatoes",
+    "3 peaches",
+  ]);
+});
+
+test("amounts that don't add up are listed together", () => {
+  assert.deepStrictEqual(merge("1 lb carrots", "2 bags carrots", "bread"), [
+    "1 lb + 2 bags carrots",
+    "bread",
+  ]);
+});
@@ -0,0 +1,315 @@
+/**
+ * Quantities and units on grocery list lines
+ * Splits "2 gallons milk" into an amount and an item name, and merges lines
+ * for the same item so a list asks for milk once, with the amounts added up.
+ */
+
+import { normalizeItem } from "../app/utils/category-learning";
+
+// How much of an item to get. A null unit counts items ("3 apples").
+export type GroceryAmount = {
+  quantity: number;
+  unit: string | null; // Singular unit name from UNITS, e.g. "gallon"
+};
+
+// One line of an organized list
+export type GroceryItem = {
+  text: string; // The line as written, or the merged amounts and name
+  name: string; // The item without its amount, for categorizing
+  amounts: GroceryAmount[]; // Empty if none was given; several if they don't add up
+  sources: string[]; // The lines merged into this one
+};
+
+type Unit = {
+  name: string;
+  plural: string;
+  aliases: string[];
+  // Amounts with the same dimension add up, after multiplying by factor
+  dimension: string;
+  factor: number;
+};
+
+// Volumes in milliliters, weights in grams, counts in items. Containers only
+// add up with the same container.
+const UNITS: Unit[] = [
+  ...[
+    { name: "tsp", aliases: ["teaspoon", "teaspoons", "tsps"], factor: 4.929 },
+    {
+      name: "tbsp",
+      aliases: ["tablespoon", "tablespoons", "tbsps", "tbs"],
+      factor: 14.787,
+    },
+    {
+      name: "fl oz",
+      aliases: ["fluid ounce", "fluid ounces", "fl. oz"],
+      factor: 29.574,
+    },
+    { name: "cup", plural: "cups", aliases: ["c"], factor: 236.588 },
+    { name: "pint", plural: "pints", aliases: ["pt", "pts"], factor: 473.176 },
+    {
+      name: "quart",
+      plural: "quarts",
+      aliases: ["qt", "qts"],
+      factor: 946.353,
+    },
+    {
+      name: "gallon",
+      plural: "gallons",
+      aliases: ["gal", "gals"],
+      factor: 3785.41,
+    },
+    { name: "ml", aliases: ["milliliter", "milliliters", "mls"], factor: 1 },
+    {
+      name: "L",
+      aliases: ["l", "liter", "liters", "litre", "litres"],
+      factor: 1000,
+    },
+  ].map((unit) => ({ plural: unit.name, ...unit, dimension: "volume" })),
+  ...[
+    { name: "oz", aliases: ["ounce", "ounces"], factor: 28.3495 },
+    { name: "lb", aliases: ["lbs", "pound", "pounds"], factor: 453.592 },
+    { name: "g", aliases: ["gram", "grams"], factor: 1 },
+    {
+      name: "kg",
+      aliases: ["kilo", "kilos", "kilogram", "kilograms"],
+      factor: 1000,
+    },
+  ].map((unit) => ({ plural: unit.name, ...unit, dimension: "weight" })),
+  {
+    name: "dozen",
+    plural: "dozen",
+    aliases: [],
+    dimension: "count",
+    factor: 12,
+  },
+  ...[
+    ["can", "cans"],
+    ["bag", "bags"],
+    ["box", "boxes"],
+    ["bottle", "bottles"],
+    ["jar", "jars"],
+    ["bunch", "bunches"],
+    ["pack", "packs"],
+    ["package", "packages"],
+    ["carton", "cartons"],
+    ["loaf", "loaves"],
+    ["head", "heads"],
+    ["clove", "cloves"],
+    ["stick", "sticks"],
+  ].map(([name, plural]) => ({
+    name,
+    plural,
+    aliases: [plural],
+    dimension: name,
+    factor: 1,
+  })),
+];
+
+const UNITS_BY_ALIAS = new Map<string, Unit>();
+for (const unit of UNITS) {
+  for (const alias of [unit.name, unit.plural, ...unit.aliases]) {
+    UNITS_BY_ALIAS.set(alias.toLowerCase(), unit);
+  }
+}
+
+// Longest first, so "fl oz" is tried before "oz"
+const UNIT_PATTERN = Array.from(UNITS_BY_ALIAS.keys())
+  .sort((a, b) => b.length - a.length)
+  .map((alias) => alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  .join("|");
+
+const FRACTIONS: Record<string, number> = {
+  "½": 1 / 2,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "¼": 1 / 4,
+  "¾": 3 / 4,
+  "⅛": 1 / 8,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+};
+
+// "1 1/2", "1/2", "1.5", "1½", "½" or a number word
+const QUANTITY = `(\\d+\\s+\\d+/\\d+|\\d+/\\d+|\\d*\\.?\\d+[½⅓⅔¼¾⅛]?|[½⅓⅔¼¾⅛]|${Object.keys(
+  NUMBER_WORDS
+).join("|")})`;
+
+// A quantity, then optionally "x" or a unit (with an optional "of"), then the
+// name: "2 gallons milk", "2x eggs", "500g flour", "a bag of chips"
+const LEADING_AMOUNT = new RegExp(
+  `^${QUANTITY}(?:\\s*[x×](?=\\s)|\\s*(${UNIT_PATTERN})\\.?(?=\\s)(?:\\s+of)?)?\\s+(.+)$`,
+  "i"
+);
+
+// An amount after the name: "eggs x2", "eggs (2)"
+const TRAILING_AMOUNT = /^(.+?)\s*(?:[x×]\s*(\d+)|\((\d+)\))$/i;
+
+function parseQuantity(value: string): number | null {
+  const word = NUMBER_WORDS[value.toLowerCase()];
+  if (word !== undefined) {
+    return word;
+  }
+
+  let total = 0;
+  for (const part of value.split(/\s+/)) {
+    const fraction = part.match(/^(\d+)\/(\d+)$/);
+    if (fraction) {
+      if (Number(fraction[2]) === 0) return null;
+      total += Number(fraction[1]) / Number(fraction[2]);
+    } else {
+      const vulgar = part.slice(-1);
+      if (vulgar in FRACTIONS) {
+        total += FRACTIONS[vulgar] + Number(part.slice(0, -1) || 0);
+      } else {
+        total += Number(part);
+      }
+    }
+  }
+  return Number.isFinite(total) ? total : null;
+}
+
+/**
+ * Splits a grocery list line into its amount and item name
+ * @param line The line as written, e.g. "2 gallons milk"
+ * @returns The parsed item. Lines without a recognizable amount keep the
+ * whole line as the name.
+ */
+export function parseGroceryItem(line: string): GroceryItem {
+  const text = line.trim().replace(/\s+/g, " ");
+  const unparsed: GroceryItem = {
+    text,
+    name: text,
+    amounts: [],
+    sources: [text],
+  };
+
+  const leading = text.match(LEADING_AMOUNT);
+  if (leading) {
+    const [, value, unitText, name] = leading;
+    const quantity = parseQuantity(value);
+    const unit = unitText ? UNITS_BY_ALIAS.get(unitText.toLowerCase()) : null;
+    // "a" and "an" only count before a unit: "a bag of chips", not "a apple"
+    const isArticle = /^an?$/i.test(value);
+    if (quantity !== null && (unit || !isArticle)) {
+      return {
+        ...unparsed,
+        name,
+        amounts: [{ quantity, unit: unit ? unit.name : null }],
+      };
+    }
+  }
+
+  const trailing = text.match(TRAILING_AMOUNT);
+  if (trailing) {
+    const [, name, times, count] = trailing;
+    return {
+      ...unparsed,
+      name,
+      amounts: [{ quantity: Number(times ?? count), unit: null }],
+    };
+  }
+
+  return unparsed;
+}
+
+// The same stem for a word's singular and plural: "tomato" and "tomatoes",
+// "berry" and "berries", "peach" and "peaches". Only used to compare names.
+export function stem(word: string): string {
+  return word
+    .replace(/([^su])s$/, "$1")
+    .replace(/ie$/, "y")
+    .replace(/oe$/, "o")
+    .replace(/(ch|sh|x|ss|z)e$/, "$1");
+}
+
+// Items with the same key are merged
+function itemKey(name: string): string {
+  const words = normalizeItem(name).split(" ");
+  words[words.length - 1] = stem(words[words.length - 1]);
+  return words.join(" ");
+}
+
+function formatQuantity(quantity: number): string {
+  return String(Math.round(quantity * 100) / 100);
+}
+
+// "2 gallons", "1 lb" or "3"
+export function formatAmount({ quantity, unit }: GroceryAmount): string {
+  if (!unit) {
+    return formatQuantity(quantity);
+  }
+  const { name, plural } = UNITS_BY_ALIAS.get(unit.toLowerCase())!;
+  return `${formatQuantity(quantity)} ${quantity === 1 ? name : plural}`;
+}
+
+// Adds each amount to one it's compatible with, converting to the unit of
+// whichever came first
+function addAmounts(amounts: GroceryAmount[]): GroceryAmount[] {
+  const totals: GroceryAmount[] = [];
+  const unitOf = (amount: GroceryAmount) =>
+    amount.unit ? UNITS_BY_ALIAS.get(amount.unit.toLowerCase())! : null;
+  const dimensionOf = (amount: GroceryAmount) =>
+    unitOf(amount)?.dimension ?? "count";
+  const factorOf = (amount: GroceryAmount) => unitOf(amount)?.factor ?? 1;
+
+  for (const amount of amounts) {
+    const total = totals.find(
+      (total) => dimensionOf(total) === dimensionOf(amount)
+    );
+    if (total) {
+      total.quantity += (amount.quantity * factorOf(amount)) / factorOf(total);
+    } else {
+      totals.push({ ...amount });
+    }
+  }
+  return totals;
+}
+
+/**
+ * Merges items that name the same thing, adding up their amounts
+ * "milk" and "2 gallons milk" become "2 gallons milk"; "1 gallon milk" and
+ * "2 quarts milk" become "1.5 gallons milk". Amounts that can't be added up
+ * are listed together, as in "1 lb + 2 bags carrots".
+ * @param items Parsed items, in list order
+ * @returns One item per distinct name, in order of first appearance
+ */
+export function mergeGroceryItems(items: GroceryItem[]): GroceryItem[] {
+  const merged = new Map<string, GroceryItem[]>();
+  for (const item of items) {
+    const key = itemKey(item.name);
+    merged.set(key, [...(merged.get(key) ?? []), item]);
+  }
+
+  return Array.from(merged.values()).map((group) => {
+    if (group.length === 1) {
+      return group[0];
+    }
+
+    const amounts = addAmounts(group.flatMap((item) => item.amounts));
+    const sources = group.flatMap((item) => item.sources);
+    // A lone amount keeps the first line that had one, as written
+    const written = group.filter((item) => item.amounts.length > 0);
+    const text =
+      amounts.length === 0
+        ? group[0].text
+        : written.length === 1
+        ? written[0].text
+        : `${amounts.map(formatAmount).join(" + ")} ${group[0].name}`;
+
+    return { text, name: group[0].name, amounts, sources };
+  });
+}
@@ -0,0 +1,156 @@
+/**
+ * Benchmark for keyword matching: KeywordIndex against testing every keyword
+ * in turn, as categorizeItem did before it
+ * Run with: node --import tsx party/keyword-index.bench.ts
+ */
+
+import { DEFAULT_DEPARTMENTS } from "./grocery-categorizer";
+import { KeywordIndex } from "./keyword-index";
+
+// A big shop's 100 items: plurals, misspellings and items with no keyword at all
+const ITEMS = [
+  "apples",
+  "bananas",
+  "brocoli",
+  "baby carrots",
+  "bean sprouts",
+  "tomatos",
+  "chkn breast",
+  "ground beef",
+  "salmon fillets",
+  "whole milk",
+  "greek yogurt",
+  "eggs",
+  "cheddar cheese",
+  "sourdough bread",
+  "bagels",
+  "pies",
+  "pasta",
+  "marinara sauce",
+  "peanut butter",
+  "cheerios",
+  "frozen peas",
+  "ice cream",
+  "paper plates",
+  "paper towels",
+  "dish soap",
+  "toothpaste",
+  "dog food",
+  "birthday candles",
+  "sparkling water",
+  "coffee beans",
+  "oranges",
+  "lemons",
+  "limes",
+  "avocados",
+  "strawberies",
+  "blueberries",
+  "grapes",
+  "spinach",
+  "romaine lettuce",
+  "cucumbers",
+  "red onions",
+  "garlic",
+  "potatos",
+  "sweet potatoes",
+  "zucchini",
+  "bell peppers",
+  "cilantro",
+  "mushrooms",
+  "celery",
+  "corn on the cob",
+  "chicken thighs",
+  "pork chops",
+  "bacon",
+  "turkey slices",
+  "shrimp",
+  "tofu",
+  "hot dogs",
+  "butter",
+  "heavy cream",
+  "sour cream",
+  "cream cheese",
+  "mozzarella",
+  "parmesan",
+  "string cheese",
+  "orange juice",
+  "almond milk",
+  "tortillas",
+  "english muffins",
+  "hamburger buns",
+  "croissants",
+  "muffins",
+  "rice",
+  "quinoa",
+  "black beans",
+  "canned tomatoes",
+  "chicken broth",
+  "olive oil",
+  "flour",
+  "sugar",
+  "brown sugar",
+  "cinamon",
+  "salt",
+  "honey",
+  "maple syrup",
+  "granola bars",
+  "crackers",
+  "potato chips",
+  "pretzels",
+  "popcorn",
+  "frozen pizza",
+  "waffles",
+  "frozen berries",
+  "trash bags",
+  "laundry detergent",
+  "sponges",
+  "aluminum foil",
+  "shampoo",
+  "band-aids",
+  "cat litter",
+  "diapers",
+];
+
+const RUNS = 20;
+
+// Testing each keyword of each department against the item with a regex
+function scanKeywords(item: string): string {
+  const normalizedItem = item.toLowerCase().trim();
+  let best: { department: string; length: number } | null = null;
+  for (const department of DEFAULT_DEPARTMENTS) {
+    for (const keyword of department.keywords) {
+      const escapedKeyword = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      const regex = new RegExp(`\\b${escapedKeyword}\\b`, "i");
+      if (
+        regex.test(normalizedItem) &&
+        (!best || keyword.length > best.length)
+      ) {
+        best = { department: department.name, length: keyword.length };
+      }
+    }
+  }
+  return best?.department ?? "Other";
+}
+
+// The median time to categorize the whole list, in milliseconds
+function time(categorize: (item: string) => unknown): number {
+  const times = Array.from({ length: RUNS }, () => {
+    const start = performance.now();
+    ITEMS.forEach(categorize);
+    return performance.now() - start;
+  });
+  return times.sort((a, b) => a - b)[Math.floor(RUNS / 2)];
+}
+
+const start = performance.now();
+const index = new KeywordIndex(DEFAULT_DEPARTMENTS);
+index.match("brocoli"); // Builds the lookalike index too
+const build = performance.now() - start;
+
+const before = time(scanKeywords);
+const after = time((item) => index.match(item));
+
+console.log(`${ITEMS.length} items, median of ${RUNS} runs`);
+console.log(`  every keyword in turn: ${before.toFixed(1)} ms`);
+console.log(`  KeywordIndex:          ${after.toFixed(1)} ms`);
+console.log(`  building the index:    ${build.toFixed(1)} ms, once`);
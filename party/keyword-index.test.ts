@@ -0,0 +1,76 @@
+/**
+ * Unit tests for keyword matching
+ * Run with: node --import tsx --test party/keyword-index.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { KeywordIndex } from "./keyword-index";
+
+const index = new KeywordIndex([
+  { name: "Produce", keywords: ["broccoli", "tomato"] },
+  { name: "Meat", keywords: ["chicken", "chicken breast"] },
+  { name: "Pantry", keywords: ["cheez-it", "steel cut oats"] },
+]);
+
+test("keywords match whole words, ignoring plurals and punctuation", () => {
+  assert.strictEqual(index.match("Tomatoes"), "Produce");
+  assert.strictEqual(index.match("cheez-its"), "Pantry");
+  assert.strictEqual(index.match("Steel-cut oats"), "Pantry");
+  assert.strictEqual(index.match("cheezit"), null);
+  assert.strictEqual(index.match("steel oats"), null);
+});
+
+test("words one letter off match", () => {
+  assert.strictEqual(index.match("brocoli"), "Produce");
+  assert.strictEqual(index.match("broccolli"), "Produce");
+  assert.strictEqual(index.match("borccoli"), "Produce");
+  assert.strictEqual(index.match("brockoli"), "Produce");
+  assert.strictEqual(index.match("bricoloi"), null);
+});
+
+test("short words have to be spelled right", () => {
+  const short = new KeywordIndex([{ name: "Dairy", keywords: ["milk"] }]);
+  assert.strictEqual(short.match("mlik"), null);
+  assert.strictEqual(short.match("silk"), null);
+});
+
+test("abbreviations without vowels are expanded", () => {
+  assert.strictEqual(index.match("chkn breast"), "Meat");
+  assert.strictEqual(index.match("chkn"), "Meat");
+  assert.strictEqual(index.match("ckn"), "Meat");
+  // The first and last letters have to match
+  assert.strictEqual(index.match("hkn"), null);
+});
+
+test("misspellings are only tried when nothing matches as written", () => {
+  const index = new KeywordIndex([
+    { name: "Stuff", keywords: ["floor"] },
+    { name: "Pantry", keywords: ["flour"] },
+  ]);
+  assert.strictEqual(index.match("flour"), "Pantry");
+  assert.strictEqual(index.match("flor"), null);
+  assert.strictEqual(index.match("floour"), "Stuff");
+});
+
+test("another form of a keyword's noun only matches the item's noun", () => {
+  const index = new KeywordIndex([
+    { name: "Produce", keywords: ["brussels sprout"] },
+    { name: "Pantry", keywords: ["beans"] },
+  ]);
+  assert.strictEqual(index.match("bean"), "Pantry");
+  assert.strictEqual(index.match("beans sprouts"), "Pantry");
+  assert.strictEqual(index.match("bean sprouts"), null);
+  // Words before the noun can take another form
+  assert.strictEqual(index.match("brussel sprouts"), "Produce");
+});
+
+test("the longest keyword wins, then the earliest department", () => {
+  const index = new KeywordIndex([
+    { name: "Produce", keywords: ["apple"] },
+    { name: "Bakery", keywords: ["apple pie", "pie"] },
+    { name: "Frozen", keywords: ["apple pie"] },
+  ]);
+  assert.strictEqual(index.match("apples"), "Produce");
+  assert.strictEqual(index.match("frozen apple pie"), "Bakery");
+});
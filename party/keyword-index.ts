@@ -0,0 +1,236 @@
+/**
+ * Keyword matching for the grocery categorizer
+ * Items and keywords are compared word by word, against an index built once
+ * per set of departments, so an item is looked up rather than tested against
+ * every keyword in turn. Plurals match their singulars ("tomatos" and
+ * "tomato"), though a keyword's noun only takes another form as the item's
+ * noun too: "bean sprouts" are sprouts, not beans. When nothing matches as
+ * written, misspelled words ("brocoli") and abbreviations without vowels
+ * ("chkn") are tried.
+ */
+
+import type { Department } from "./grocery-categorizer";
+import { stem } from "./grocery-items";
+
+// Words at least this long may be off by one letter
+const MIN_FUZZY_LENGTH = 5;
+
+// Vowel-less words at least this long may be abbreviations
+const MIN_ABBREVIATION_LENGTH = 3;
+
+type Keyword = {
+  text: string; // Lowercase, as written
+  words: string[]; // Stemmed
+  noun: string; // The last word, lowercase, as written
+  length: number; // Of the stemmed words; longer is more specific
+  department: number; // Position in display order; earlier wins ties
+};
+
+// Words, lowercase and without apostrophes: "Trader Joe's" becomes
+// ["trader", "joes"]
+function toWords(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .match(/[\p{L}\p{N}]+/gu);
+  return words ?? [];
+}
+
+// Every way of leaving out one letter
+function deletions(word: string): string[] {
+  return Array.from(word, (_, i) => word.slice(0, i) + word.slice(i + 1));
+}
+
+// Whether one letter added, removed, changed or swapped with its neighbor
+// turns a into b
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) {
+    return false;
+  }
+
+  let i = 0;
+  while (i < a.length && a[i] === b[i]) i++;
+  if (a.length !== b.length) {
+    const [longer, shorter] = a.length > b.length ? [a, b] : [b, a];
+    return longer.slice(i + 1) === shorter.slice(i);
+  }
+  return (
+    a.slice(i + 1) === b.slice(i + 1) ||
+    (a[i] === b[i + 1] &&
+      a[i + 1] === b[i] &&
+      a.slice(i + 2) === b.slice(i + 2))
+  );
+}
+
+// Whether the letters of abbreviation appear in word, in order
+function isSubsequence(abbreviation: string, word: string): boolean {
+  let i = 0;
+  for (const letter of word) {
+    if (letter === abbreviation[i]) i++;
+  }
+  return i === abbreviation.length;
+}
+
+// Whether keyword a is a better match for an item than b: longer, then
+// written as in the item ("mint" over "mints" for mint, but "mints" over
+// "mint" for mints), then in an earlier department
+function isBetter(item: string, a: Keyword, b: Keyword | null): boolean {
+  if (!b || a.length !== b.length) {
+    return !b || a.length > b.length;
+  }
+  const aWritten = item.includes(a.text) ? a.text.length : -1;
+  const bWritten = item.includes(b.text) ? b.text.length : -1;
+  return aWritten !== bWritten
+    ? aWritten > bWritten
+    : a.department < b.department;
+}
+
+/**
+ * Finds the department whose keywords best match an item. The longest
+ * matching keyword wins. Build one index per set of departments and reuse it.
+ */
+export class KeywordIndex {
+  private readonly departments: string[];
+  // Keywords by their first word
+  private readonly keywords = new Map<string, Keyword[]>();
+  // Built the first time an item doesn't match as written
+  private lookalikeIndex: {
+    // Keyword words by themselves and every way of leaving out one letter,
+    // for finding words one edit away
+    fuzzyWords: Map<string, Set<string>>;
+    // Keyword words by their first and last letters, for expanding
+    // abbreviations
+    abbreviatedWords: Map<string, Set<string>>;
+  } | null = null;
+
+  constructor(departments: Department[]) {
+    this.departments = departments.map(({ name }) => name);
+
+    departments.forEach(({ keywords }, department) => {
+      for (const text of keywords) {
+        const written = toWords(text);
+        if (written.length === 0) continue;
+
+        const words = written.map(stem);
+        const keyword = {
+          text: text.toLowerCase(),
+          words,
+          noun: written[written.length - 1],
+          length: words.join(" ").length,
+          department,
+        };
+        const sameStart = this.keywords.get(words[0]) ?? [];
+        this.keywords.set(words[0], [...sameStart, keyword]);
+      }
+    });
+  }
+
+  /**
+   * The department for an item
+   * @param item Item text, as written
+   * @returns The department name, or null if no keyword matches
+   */
+  match(item: string): string | null {
+    const text = item.toLowerCase();
+    const written = toWords(item);
+    const words = written.map(stem);
+    const keyword =
+      this.bestKeyword(
+        text,
+        written,
+        words.map((word) => [word])
+      ) ??
+      this.bestKeyword(
+        text,
+        written,
+        words.map((word) => this.lookalikes(word))
+      );
+    return keyword ? this.departments[keyword.department] : null;
+  }
+
+  private getLookalikeIndex() {
+    if (this.lookalikeIndex) {
+      return this.lookalikeIndex;
+    }
+
+    const fuzzyWords = new Map<string, Set<string>>();
+    const abbreviatedWords = new Map<string, Set<string>>();
+    const add = (index: Map<string, Set<string>>, key: string, word: string) =>
+      index.set(key, (index.get(key) ?? new Set<string>()).add(word));
+
+    for (const keywords of this.keywords.values()) {
+      for (const word of keywords.flatMap((keyword) => keyword.words)) {
+        if (word.length >= MIN_FUZZY_LENGTH) {
+          for (const variant of [word, ...deletions(word)]) {
+            add(fuzzyWords, variant, word);
+          }
+        }
+        add(abbreviatedWords, word[0] + word[word.length - 1], word);
+      }
+    }
+
+    this.lookalikeIndex = { fuzzyWords, abbreviatedWords };
+    return this.lookalikeIndex;
+  }
+
+  // The word, and the keyword words it could be a misspelling or
+  // abbreviation of
+  private lookalikes(word: string): string[] {
+    const { fuzzyWords, abbreviatedWords } = this.getLookalikeIndex();
+    const lookalikes = new Set([word]);
+
+    if (word.length >= MIN_FUZZY_LENGTH) {
+      for (const variant of [word, ...deletions(word)]) {
+        for (const candidate of fuzzyWords.get(variant) ?? []) {
+          if (withinOneEdit(word, candidate)) {
+            lookalikes.add(candidate);
+          }
+        }
+      }
+    }
+
+    if (
+      word.length >= MIN_ABBREVIATION_LENGTH &&
+      /^[b-df-hj-np-tv-xz]+$/.test(word)
+    ) {
+      const ends = word[0] + word[word.length - 1];
+      for (const candidate of abbreviatedWords.get(ends) ?? []) {
+        if (candidate.length > word.length && isSubsequence(word, candidate)) {
+          lookalikes.add(candidate);
+        }
+      }
+    }
+
+    return Array.from(lookalikes);
+  }
+
+  // The best keyword whose words appear in order, where each item word may
+  // be any of its options. The first option is the item word itself.
+  private bestKeyword(
+    item: string,
+    written: string[],
+    options: string[][]
+  ): Keyword | null {
+    let best: Keyword | null = null;
+    options.forEach((firstWords, start) => {
+      for (const firstWord of firstWords) {
+        for (const keyword of this.keywords.get(firstWord) ?? []) {
+          const end = start + keyword.words.length - 1;
+          const matches =
+            end < options.length &&
+            keyword.words.every((word, i) =>
+              options[start + i].includes(word)
+            ) &&
+            // Another form of the keyword's noun has to be the item's noun
+            (end === options.length - 1 ||
+              written[end] === keyword.noun ||
+              options[end][0] !== keyword.words[keyword.words.length - 1]);
+          if (matches && isBetter(item, keyword, best)) {
+            best = keyword;
+          }
+        }
+      }
+    });
+    return best;
+  }
+}
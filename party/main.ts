@@ -3,17 +3,29 @@ import { createRequestHandler, logDevReady } from "partymix";
 import * as build from "@remix-run/dev/server-build";
 import * as fs from "fs";
 import * as path from "path";
+import { getUserName } from "../app/utils/session.server";
+import type { DocumentsServer } from "./documents";
+import type { YjsServer } from "./yjs";
+import type { StarChartServer } from "./star-chart";
+import type { UsersServer } from "./users";
+import type { CategorizerServer } from "./categorizer";
 
 // Define the Env type for Cloudflare Workers
 export interface Env {
   MainServer: DurableObjectNamespace;
-  DocumentsServer: DurableObjectNamespace;
-  YjsServer: DurableObjectNamespace;
+  DocumentsServer: DurableObjectNamespace<DocumentsServer>;
+  YjsServer: DurableObjectNamespace<YjsServer>;
   GeoServer: DurableObjectNamespace;
-  StarChartServer: DurableObjectNamespace;
+  StarChartServer: DurableObjectNamespace<StarChartServer>;
+  UsersServer: DurableObjectNamespace<UsersServer>;
+  CategorizerServer: DurableObjectNamespace<CategorizerServer>;
+  CATEGORIZER_BACKEND?: string; // "anthropic", "openai" or "keywords"
   ANTHROPIC_API_KEY?: string;
+  OPENAI_BASE_URL?: string; // OpenAI-compatible endpoint, e.g. a local Ollama
+  OPENAI_MODEL?: string;
+  OPENAI_API_KEY?: string;
   SESSION_SECRET: string;
-  HOUSEHOLD_PASSWORD: string;
+  HOUSEHOLD_PASSWORD: string; // Only used to create the first admin account
 }
 
 // Only log dev ready in Node.js environments (not Cloudflare Workers)
@@ -52,6 +64,22 @@ export { DocumentsServer } from "./documents";
 export { YjsServer } from "./yjs";
 export { GeoServer } from "./geo";
 export { StarChartServer } from "./star-chart";
+export { UsersServer } from "./users";
+export { CategorizerServer } from "./categorizer";
+
+// Only signed-in household members may reach a PartyServer instance from the
+// outside, whether over a WebSocket (Yjs sync, presence, star chart updates)
+// or HTTP. The /api routes don't come through here: they call the servers
+// directly over RPC (see app/utils/storage.server.ts).
+async function requirePartySession(
+  request: Request,
+  env: Env
+): Promise<Response | void> {
+  const userName = await getUserName(request, env);
+  if (!userName) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+}
 
 // Helper function to serve static files in development
 function serveStaticAsset(pathname: string): Response | null {
@@ -74,14 +102,26 @@ function serveStaticAsset(pathname: string): Response | null {
           ? "text/html"
           : ext === ".json"
           ? "application/json"
+          : ext === ".webmanifest"
+          ? "application/manifest+json"
+          : ext === ".png"
+          ? "image/png"
+          : ext === ".svg"
+          ? "image/svg+xml"
           : ext === ".ico"
           ? "image/x-icon"
           : "application/octet-stream";
 
+      // Only /build/ files have content hashes in their names. The service
+      // worker in particular must be rechecked, or updates never arrive.
+      const cacheControl = pathname.startsWith("/build/")
+        ? "public, max-age=31536000, immutable"
+        : "no-cache";
+
       return new Response(content, {
         headers: {
           "Content-Type": contentType,
-          "Cache-Control": "public, max-age=31536000, immutable",
+          "Cache-Control": cacheControl,
         },
       });
     }
@@ -102,13 +142,22 @@ export default {
     const url = new URL(request.url);
 
     // Try to route to a PartyServer instance (yjs-server, geo-server, documents-server)
-    const partyResponse = await routePartykitRequest(request, env as any);
+    const partyResponse = await routePartykitRequest(request, env as any, {
+      onBeforeRequest: (req) => requirePartySession(req, env),
+      onBeforeConnect: (req) => requirePartySession(req, env),
+    });
     if (partyResponse) {
       return partyResponse;
     }
 
     // Serve static assets from the public directory (development only)
-    if (url.pathname.startsWith("/build/") || url.pathname === "/favicon.ico") {
+    if (
+      url.pathname.startsWith("/build/") ||
+      url.pathname.startsWith("/icons/") ||
+      url.pathname === "/favicon.ico" ||
+      url.pathname === "/sw.js" ||
+      url.pathname === "/manifest.webmanifest"
+    ) {
       const staticResponse = serveStaticAsset(url.pathname);
       if (staticResponse) {
         return staticResponse;
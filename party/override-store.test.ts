@@ -0,0 +1,75 @@
+/**
+ * Unit tests for learned grocery departments
+ * Run with: node --import tsx --test party/override-store.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { OverrideStore } from "./override-store";
+import type { OverrideStorage } from "./override-store";
+
+class MemoryStorage implements OverrideStorage {
+  data = new Map<string, unknown>();
+
+  async list<T>({ prefix }: { prefix: string }): Promise<Map<string, T>> {
+    const keys = Array.from(this.data.keys())
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+    return new Map(keys.map((key) => [key, this.data.get(key) as T]));
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.data.delete(key);
+  }
+}
+
+test("an item learned with an amount is forgotten with the same amount", async () => {
+  const storage = new MemoryStorage();
+  const overrides = new OverrideStore(storage);
+
+  const learned = await overrides.set("2 gallons milk", "Costco", "mom");
+  assert.strictEqual(learned?.item, "milk");
+  assert.deepStrictEqual(Array.from(storage.data.keys()), ["override:milk"]);
+
+  assert.strictEqual(await overrides.delete("2 gallons milk"), true);
+  assert.strictEqual(storage.data.size, 0);
+  assert.strictEqual(await overrides.delete("2 gallons milk"), false);
+});
+
+test("an item is forgotten however it's written", async () => {
+  const overrides = new OverrideStore(new MemoryStorage());
+
+  await overrides.set("2 gallons milk", "Costco", "mom");
+  assert.strictEqual(await overrides.delete("Milk"), true);
+
+  await overrides.set("Oat Milk", "Trader Joe's", "mom");
+  assert.strictEqual(await overrides.delete("1 oat milk"), true);
+  assert.deepStrictEqual(await overrides.all(), []);
+});
+
+test("blank items and departments aren't learned", async () => {
+  const overrides = new OverrideStore(new MemoryStorage());
+  assert.strictEqual(await overrides.set("  ", "Costco", "mom"), null);
+  assert.strictEqual(await overrides.set("milk", " ", "mom"), null);
+  assert.deepStrictEqual(await overrides.all(), []);
+});
+
+test("renaming a department moves what was learned for it", async () => {
+  const overrides = new OverrideStore(new MemoryStorage());
+  await overrides.set("milk", "Costco", "mom");
+  await overrides.set("apples", "Produce", "mom");
+
+  await overrides.moveDepartment("Costco", "Costco Wholesale");
+
+  assert.deepStrictEqual(
+    (await overrides.all()).map(({ item, department }) => [item, department]),
+    [
+      ["apples", "Produce"],
+      ["milk", "Costco Wholesale"],
+    ]
+  );
+});
@@ -0,0 +1,85 @@
+import { normalizeItem } from "./grocery-categorizer";
+import { parseGroceryItem } from "./grocery-items";
+
+// The subset of DurableObjectStorage the store uses, so tests can pass a Map
+export interface OverrideStorage {
+  list<T>(options: { prefix: string }): Promise<Map<string, T>>;
+  put<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<boolean>;
+}
+
+// A department someone filed an item under by hand, which Group Items uses
+// from then on instead of guessing
+export type CategoryOverride = {
+  item: string; // Name without its amount, normalized with normalizeItem()
+  department: string;
+  userName: string; // Who made the correction
+  updatedAt: number;
+};
+
+const OVERRIDE_PREFIX = "override:";
+
+// "2 gallons oat milk" is filed under oat milk, whether it's being learned
+// or forgotten
+function getOverrideKey(item: string): string {
+  return `${OVERRIDE_PREFIX}${normalizeItem(parseGroceryItem(item).name)}`;
+}
+
+/**
+ * The departments the household has filed items under by hand, kept in
+ * storage under override:{normalized item}
+ */
+export class OverrideStore {
+  private storage: OverrideStorage;
+
+  constructor(storage: OverrideStorage) {
+    this.storage = storage;
+  }
+
+  // Every override, alphabetically by item
+  async all(): Promise<CategoryOverride[]> {
+    const entries = await this.storage.list<CategoryOverride>({
+      prefix: OVERRIDE_PREFIX,
+    });
+    return Array.from(entries.values());
+  }
+
+  // Learn (or correct) an item's department. Returns null if either is blank.
+  async set(
+    item: string,
+    department: string,
+    userName: string
+  ): Promise<CategoryOverride | null> {
+    const key = getOverrideKey(item);
+    const name = department.trim();
+    if (key === OVERRIDE_PREFIX || !name) {
+      return null;
+    }
+
+    const override: CategoryOverride = {
+      item: key.slice(OVERRIDE_PREFIX.length),
+      department: name,
+      userName,
+      updatedAt: Date.now(),
+    };
+    await this.storage.put(key, override);
+    return override;
+  }
+
+  // Forget an item. Returns false if nothing was learned for it.
+  async delete(item: string): Promise<boolean> {
+    return this.storage.delete(getOverrideKey(item));
+  }
+
+  // File everything learned for one department under another
+  async moveDepartment(from: string, to: string): Promise<void> {
+    const moved = (await this.all())
+      .filter((override) => override.department === from)
+      .map((override) => ({ ...override, department: to }));
+    await Promise.all(
+      moved.map((override) =>
+        this.storage.put(`${OVERRIDE_PREFIX}${override.item}`, override)
+      )
+    );
+  }
+}
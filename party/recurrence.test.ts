@@ -0,0 +1,66 @@
+/**
+ * Unit tests for weekly document reset scheduling
+ * Run with: node --import tsx --test party/recurrence.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { getPacificMidnight } from "./dates";
+import { getNextRunAt, validateRecurrence } from "./recurrence";
+
+test("Pacific midnight follows daylight saving time", () => {
+  assert.strictEqual(
+    new Date(getPacificMidnight("2026-07-06")).toISOString(),
+    "2026-07-06T07:00:00.000Z"
+  );
+  assert.strictEqual(
+    new Date(getPacificMidnight("2026-12-07")).toISOString(),
+    "2026-12-07T08:00:00.000Z"
+  );
+});
+
+test("the next run is the coming weekday, a week out on the day itself", () => {
+  // Monday 2026-10-19 at 10:00 Pacific
+  const mondayMorning = Date.parse("2026-10-19T17:00:00Z");
+
+  assert.strictEqual(
+    new Date(getNextRunAt(3, mondayMorning)).toISOString(),
+    "2026-10-21T07:00:00.000Z" // Wednesday
+  );
+  assert.strictEqual(
+    new Date(getNextRunAt(1, mondayMorning)).toISOString(),
+    "2026-10-26T07:00:00.000Z" // Next Monday
+  );
+});
+
+test("late Sunday night in Pacific time is still Sunday", () => {
+  // 23:30 Pacific on Sunday, already Monday in UTC
+  const sundayNight = Date.parse("2026-10-19T06:30:00Z");
+  assert.strictEqual(
+    new Date(getNextRunAt(1, sundayNight)).toISOString(),
+    "2026-10-19T07:00:00.000Z"
+  );
+});
+
+test("a run across the end of daylight saving time lands on midnight", () => {
+  // Saturday 2026-10-31; clocks go back early on Sunday 2026-11-01
+  const saturday = Date.parse("2026-10-31T19:00:00Z");
+  assert.strictEqual(
+    new Date(getNextRunAt(2, saturday)).toISOString(),
+    "2026-11-03T08:00:00.000Z"
+  );
+});
+
+test("settings need a weekday, a reset and a template for template resets", () => {
+  assert.strictEqual(
+    validateRecurrence({ weekday: 1, reset: "clear-checked" }),
+    null
+  );
+  assert.ok(validateRecurrence({ weekday: 7, reset: "clear-checked" }));
+  assert.ok(validateRecurrence({ weekday: 1.5, reset: "clear-checked" }));
+  assert.ok(validateRecurrence({ weekday: 1, reset: "template" }));
+  assert.strictEqual(
+    validateRecurrence({ weekday: 1, reset: "template", templateId: "doc-1" }),
+    null
+  );
+});
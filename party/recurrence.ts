@@ -0,0 +1,61 @@
+import { addDays, getPacificDate, getPacificMidnight } from "./dates";
+
+/**
+ * A document that resets every week, e.g. a chore chart or meal plan. At
+ * the start of the chosen day (Pacific time, like the star charts) the
+ * document is archived as a dated copy, and then either has its checked items
+ * cleared or is replaced with a fresh copy of a template.
+ */
+export type DocumentRecurrence = {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  reset: "clear-checked" | "template";
+  templateId?: string; // The template document, for reset: "template"
+  nextRunAt: number; // Midnight Pacific time at the start of the next reset
+};
+
+// What the settings form chooses; the server works out when it next runs
+export type RecurrenceSettings = Omit<DocumentRecurrence, "nextRunAt">;
+
+export const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// The next start of `weekday` after today (in Pacific time). On the day
+// itself that's a week away, since today's midnight has already passed.
+export function getNextRunAt(weekday: number, now = Date.now()): number {
+  const today = getPacificDate(now);
+  for (let days = 1; days <= 7; days++) {
+    const date = addDays(today, days);
+    if (new Date(`${date}T00:00:00Z`).getUTCDay() === weekday) {
+      return getPacificMidnight(date);
+    }
+  }
+  throw new Error(`Invalid weekday: ${weekday}`);
+}
+
+// Check settings submitted from the form. Returns an error message if invalid.
+export function validateRecurrence(
+  settings: Partial<RecurrenceSettings>
+): string | null {
+  if (
+    typeof settings.weekday !== "number" ||
+    !Number.isInteger(settings.weekday) ||
+    settings.weekday < 0 ||
+    settings.weekday > 6
+  ) {
+    return "Choose a day of the week";
+  }
+  if (settings.reset !== "clear-checked" && settings.reset !== "template") {
+    return "Choose how the document resets";
+  }
+  if (settings.reset === "template" && !settings.templateId) {
+    return "Choose a template to reset from";
+  }
+  return null;
+}
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the document search index
+ * Run with: node --import tsx --test party/search-index.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { SearchIndex } from "./search-index";
+import type { Document } from "./documents";
+
+function makeDoc(id: string, title: string, content: string, updatedAt = 0) {
+  const doc: Document = {
+    id,
+    slug: id,
+    title,
+    content,
+    createdAt: 0,
+    updatedAt,
+    archived: false,
+  };
+  return doc;
+}
+
+test("title matches rank above content matches", () => {
+  const index = new SearchIndex();
+  index.add(makeDoc("a", "Weekly groceries", "milk and eggs"));
+  index.add(makeDoc("b", "Camping trip", "buy groceries on the way"));
+
+  const results = index.search("groceries");
+  assert.deepStrictEqual(
+    results.map((r) => r.document.id),
+    ["a", "b"]
+  );
+});
+
+test("every query word must match", () => {
+  const index = new SearchIndex();
+  index.add(makeDoc("a", "Groceries", "milk eggs bread"));
+  index.add(makeDoc("b", "Bakery", "bread rolls"));
+
+  const results = index.search("bread milk");
+  assert.deepStrictEqual(
+    results.map((r) => r.document.id),
+    ["a"]
+  );
+});
+
+test("the last word matches as a prefix while typing", () => {
+  const index = new SearchIndex();
+  index.add(makeDoc("a", "Packing list", "toothbrush toothpaste sunscreen"));
+
+  const results = index.search("tooth");
+  assert.strictEqual(results.length, 1);
+  assert.deepStrictEqual(results[0].snippetMatches, [
+    [0, 5],
+    [11, 16],
+  ]);
+});
+
+test("archived documents are searchable", () => {
+  const index = new SearchIndex();
+  index.add({ ...makeDoc("a", "Old recipes", "lasagna"), archived: true });
+
+  const results = index.search("lasagna");
+  assert.strictEqual(results.length, 1);
+  assert.strictEqual(results[0].document.archived, true);
+});
+
+test("updates and removals are reflected in results", () => {
+  const index = new SearchIndex();
+  index.add(makeDoc("a", "Notes", "call the plumber"));
+  index.add(makeDoc("a", "Notes", "call the electrician"));
+
+  assert.strictEqual(index.search("plumber").length, 0);
+  assert.strictEqual(index.search("electrician").length, 1);
+
+  index.remove("a");
+  assert.strictEqual(index.search("electrician").length, 0);
+  assert.strictEqual(index.size, 0);
+});
+
+test("snippets are trimmed around the first match and highlighted", () => {
+  const index = new SearchIndex();
+  const filler = "lorem ipsum dolor sit amet ".repeat(10);
+  index.add(makeDoc("a", "Long", `${filler}remember the umbrella ${filler}`));
+
+  const [result] = index.search("umbrella");
+  assert.ok(result.snippet.startsWith("…"));
+  assert.ok(result.snippet.endsWith("…"));
+  const [[start, end]] = result.snippetMatches;
+  assert.strictEqual(result.snippet.slice(start, end), "umbrella");
+});
+
+test("ties are broken by most recently edited", () => {
+  const index = new SearchIndex();
+  index.add(makeDoc("old", "Garden", "tomatoes", 1));
+  index.add(makeDoc("new", "Garden", "tomatoes", 2));
+
+  assert.deepStrictEqual(
+    index.search("garden").map((r) => r.document.id),
+    ["new", "old"]
+  );
+});
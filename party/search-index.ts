@@ -0,0 +1,210 @@
+import type { Document } from "./documents";
+
+// Start and end offsets (end exclusive) of a highlighted match
+export type MatchRange = [number, number];
+
+export type SearchResult = {
+  document: Omit<Document, "content">;
+  score: number;
+  titleMatches: MatchRange[];
+  snippet: string;
+  snippetMatches: MatchRange[];
+};
+
+type Posting = {
+  title: number; // Occurrences of the term in the title
+  content: number; // Occurrences of the term in the content
+};
+
+// A title hit is worth this many content hits
+const TITLE_WEIGHT = 5;
+// Terms that only start with a query token score lower than exact matches
+const PREFIX_WEIGHT = 0.5;
+// Characters of context kept either side of the first match in a snippet
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 120;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Find every place in the text where a word starts with one of the tokens
+function findMatches(text: string, tokens: string[]): MatchRange[] {
+  if (tokens.length === 0) return [];
+  // Longest first so "apple" wins over "app" at the same position
+  const alternatives = [...tokens]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})`, "giu");
+  const matches: MatchRange[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    matches.push([match.index, match.index + match[0].length]);
+  }
+  return matches;
+}
+
+function buildSnippet(
+  content: string,
+  tokens: string[]
+): { snippet: string; snippetMatches: MatchRange[] } {
+  const text = content.replace(/\s+/g, " ").trim();
+  const matches = findMatches(text, tokens);
+  const anchor = matches.length > 0 ? matches[0][0] : 0;
+
+  let start = Math.max(0, anchor - SNIPPET_BEFORE);
+  let end = Math.min(text.length, anchor + SNIPPET_AFTER);
+  // Don't cut words in half
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < anchor) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > anchor) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const offset = prefix.length - start;
+  return {
+    snippet: prefix + text.slice(start, end) + suffix,
+    snippetMatches: matches
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + offset, to + offset]),
+  };
+}
+
+/**
+ * In-memory inverted index over document titles and plain-text content.
+ * Every query token must match (exactly, or as the start of a word) for a
+ * document to be returned; results are ranked by weighted term frequency,
+ * then by most recently edited.
+ */
+export class SearchIndex {
+  private documents = new Map<string, Document>();
+  private postings = new Map<string, Map<string, Posting>>();
+  private termsByDocument = new Map<string, Set<string>>();
+  // Sorted vocabulary for prefix lookups, rebuilt lazily after changes
+  private sortedTerms: string[] | null = null;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(doc: Document): void {
+    this.remove(doc.id);
+    this.documents.set(doc.id, doc);
+
+    const terms = new Set<string>();
+    const record = (text: string, field: keyof Posting) => {
+      for (const term of tokenize(text)) {
+        let docs = this.postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(term, docs);
+          this.sortedTerms = null;
+        }
+        let posting = docs.get(doc.id);
+        if (!posting) {
+          posting = { title: 0, content: 0 };
+          docs.set(doc.id, posting);
+        }
+        posting[field]++;
+        terms.add(term);
+      }
+    };
+    record(doc.title, "title");
+    record(doc.content, "content");
+    this.termsByDocument.set(doc.id, terms);
+  }
+
+  remove(id: string): void {
+    const terms = this.termsByDocument.get(id);
+    if (terms) {
+      for (const term of terms) {
+        const docs = this.postings.get(term);
+        docs?.delete(id);
+        if (docs && docs.size === 0) {
+          this.postings.delete(term);
+          this.sortedTerms = null;
+        }
+      }
+    }
+    this.termsByDocument.delete(id);
+    this.documents.delete(id);
+  }
+
+  search(query: string, limit: number = 20): SearchResult[] {
+    const tokens = Array.from(new Set(tokenize(query)));
+    if (tokens.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    for (const token of tokens) {
+      const tokenScores = new Map<string, number>();
+      for (const term of this.termsWithPrefix(token)) {
+        const weight = term === token ? 1 : PREFIX_WEIGHT;
+        for (const [id, posting] of this.postings.get(term) ?? []) {
+          const score =
+            (posting.title * TITLE_WEIGHT + posting.content) * weight;
+          tokenScores.set(id, (tokenScores.get(id) ?? 0) + score);
+        }
+      }
+
+      // Keep only documents that matched every token so far
+      const previous: Map<string, number> | null = scores;
+      scores = new Map();
+      for (const [id, score] of tokenScores) {
+        if (!previous) {
+          scores.set(id, score);
+        } else if (previous.has(id)) {
+          scores.set(id, (previous.get(id) ?? 0) + score);
+        }
+      }
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores ?? [])
+      .map(([id, score]) => ({ doc: this.documents.get(id)!, score }))
+      .sort((a, b) => b.score - a.score || b.doc.updatedAt - a.doc.updatedAt)
+      .slice(0, limit)
+      .map(({ doc, score }) => {
+        const { content, ...document } = doc;
+        return {
+          document,
+          score,
+          titleMatches: findMatches(doc.title, tokens),
+          ...buildSnippet(content, tokens),
+        };
+      });
+  }
+
+  private termsWithPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+    const terms = this.sortedTerms;
+
+    // Binary search for the first term >= prefix
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (terms[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+      matches.push(terms[i]);
+    }
+    return matches;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for star chart stats and reward rules from the settings form
+ * Run with: node --import tsx --test party/star-chart-stats.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { computeStats, parseRules } from "../app/utils/star-chart";
+import {
+  DEFAULT_STAR_CHART_RULES,
+  recordDaily,
+  reverseEvent,
+} from "./star-chart-store";
+import type { StarChart, StarChartEvent } from "./star-chart";
+
+function makeChart(): StarChart {
+  return {
+    id: "stars",
+    type: "custom",
+    title: "Stars",
+    totalSquares: 0,
+    dryCount: 0,
+    exchanges: [],
+    rules: DEFAULT_STAR_CHART_RULES,
+    daily: {},
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+// Pacific time is UTC-7 from 2026-03-08, when daylight saving time starts
+const pacific = (dateTime: string) => Date.parse(`${dateTime}-07:00`);
+
+// Mark the streak on a day, the way the chart's dry-day button does
+function markStreak(chart: StarChart, timestamp: number): StarChartEvent {
+  chart.dryCount += 1;
+  recordDaily(chart, timestamp, "streakDays", 1);
+  return {
+    id: `${String(timestamp).padStart(15, "0")}-abcdef`,
+    chartId: chart.id,
+    action: "dry-day",
+    amount: 1,
+    userName: "mom",
+    timestamp,
+  };
+}
+
+test("a chart with no history has empty stats", () => {
+  const stats = computeStats(makeChart(), pacific("2026-03-11T12:00"));
+
+  assert.strictEqual(stats.days.length, 14);
+  assert.strictEqual(stats.days[0].date, "2026-02-26");
+  assert.strictEqual(stats.days[13].date, "2026-03-11");
+  assert.ok(stats.days.every((day) => day.earned === 0));
+  assert.strictEqual(stats.weeks.length, 8);
+  assert.ok(stats.weeks.every((week) => week.earned === 0));
+  assert.strictEqual(stats.longestStreak, 0);
+  assert.strictEqual(stats.currentStreak, 0);
+  assert.strictEqual(stats.averageDaysBetweenExchanges, null);
+});
+
+test("squares earned either side of Pacific midnight count on different days", () => {
+  const chart = makeChart();
+  // Sunday night and Monday morning: the same UTC day, but different
+  // Pacific days and weeks
+  recordDaily(chart, pacific("2026-03-08T23:30"), "earned", 2);
+  recordDaily(chart, pacific("2026-03-09T00:30"), "earned", 3);
+
+  const stats = computeStats(chart, pacific("2026-03-09T20:00"), 3, 2);
+
+  assert.deepStrictEqual(stats.days, [
+    { date: "2026-03-07", earned: 0 },
+    { date: "2026-03-08", earned: 2 },
+    { date: "2026-03-09", earned: 3 },
+  ]);
+  assert.deepStrictEqual(stats.weeks, [
+    { start: "2026-03-02", earned: 2 },
+    { start: "2026-03-09", earned: 3 },
+  ]);
+});
+
+test("today is the Pacific date, not the UTC one", () => {
+  // 8pm Pacific on the 9th is already the 10th in UTC
+  const stats = computeStats(makeChart(), pacific("2026-03-09T20:00"), 1);
+  assert.deepStrictEqual(stats.days, [{ date: "2026-03-09", earned: 0 }]);
+});
+
+test("streaks count consecutive marked days", () => {
+  const chart = makeChart();
+  markStreak(chart, pacific("2026-03-01T19:00"));
+  markStreak(chart, pacific("2026-03-05T19:00"));
+  markStreak(chart, pacific("2026-03-06T19:00"));
+  markStreak(chart, pacific("2026-03-07T19:00"));
+
+  const marked = computeStats(chart, pacific("2026-03-07T20:00"));
+  assert.strictEqual(marked.longestStreak, 3);
+  assert.strictEqual(marked.currentStreak, 3);
+
+  // Not marked yet today: still current
+  const nextDay = computeStats(chart, pacific("2026-03-08T09:00"));
+  assert.strictEqual(nextDay.currentStreak, 3);
+
+  // A whole day missed: broken
+  const broken = computeStats(chart, pacific("2026-03-09T09:00"));
+  assert.strictEqual(broken.longestStreak, 3);
+  assert.strictEqual(broken.currentStreak, 0);
+});
+
+test("undoing a streak day shortens the streak", () => {
+  const chart = makeChart();
+  markStreak(chart, pacific("2026-03-05T19:00"));
+  markStreak(chart, pacific("2026-03-06T19:00"));
+  const last = markStreak(chart, pacific("2026-03-07T19:00"));
+
+  assert.strictEqual(reverseEvent(chart, last), null);
+
+  const stats = computeStats(chart, pacific("2026-03-07T20:00"));
+  assert.strictEqual(chart.daily["2026-03-07"].streakDays, 0);
+  assert.strictEqual(stats.longestStreak, 2);
+  assert.strictEqual(stats.currentStreak, 2);
+});
+
+test("undoing a streak day in the middle splits the streak", () => {
+  const chart = makeChart();
+  markStreak(chart, pacific("2026-03-05T19:00"));
+  const middle = markStreak(chart, pacific("2026-03-06T19:00"));
+  markStreak(chart, pacific("2026-03-07T19:00"));
+
+  assert.strictEqual(reverseEvent(chart, middle), null);
+
+  const stats = computeStats(chart, pacific("2026-03-07T20:00"));
+  assert.strictEqual(stats.longestStreak, 1);
+  assert.strictEqual(stats.currentStreak, 1);
+});
+
+test("exchanges are averaged over the days between the first and last", () => {
+  const chart = makeChart();
+  recordDaily(chart, pacific("2026-03-01T10:00"), "exchanges", 1);
+  recordDaily(chart, pacific("2026-03-04T10:00"), "exchanges", 2);
+
+  const stats = computeStats(chart, pacific("2026-03-04T12:00"));
+  assert.strictEqual(stats.averageDaysBetweenExchanges, 1.5);
+});
+
+const validRules = {
+  exchangeCost: "10",
+  exchangeRewardName: " Stickers ",
+  exchangeRewardAmount: 3,
+  exchangeRewardUnit: "",
+  streakName: "Reading",
+  streakThreshold: "7",
+  streakRewardName: "Book",
+};
+
+test("rules from the form are converted and trimmed", () => {
+  assert.deepStrictEqual(parseRules(validRules), {
+    rules: {
+      exchangeCost: 10,
+      exchangeRewardName: "Stickers",
+      exchangeRewardAmount: 3,
+      exchangeRewardUnit: "",
+      streakName: "Reading",
+      streakThreshold: 7,
+      streakRewardName: "Book",
+    },
+  });
+});
+
+test("counts that aren't whole numbers from 1 to 100 are rejected", () => {
+  for (const exchangeCost of ["", "abc", "2.5", "0", "-3", "101", null]) {
+    assert.deepStrictEqual(parseRules({ ...validRules, exchangeCost }), {
+      error: "Squares per exchange must be a whole number from 1 to 100",
+    });
+  }
+  assert.deepStrictEqual(
+    parseRules({ ...validRules, streakThreshold: undefined }),
+    { error: "Streak goal must be a whole number from 1 to 100" }
+  );
+});
+
+test("names must be given, except the reward unit", () => {
+  assert.deepStrictEqual(parseRules({ ...validRules, streakName: "  " }), {
+    error: "Streak name is required",
+  });
+  assert.deepStrictEqual(parseRules({ ...validRules, exchangeRewardName: 5 }), {
+    error: "Reward name is required",
+  });
+  assert.deepStrictEqual(
+    parseRules({ ...validRules, exchangeRewardUnit: undefined }),
+    { error: "Reward unit is required" }
+  );
+  assert.ok("rules" in parseRules({ ...validRules, exchangeRewardUnit: " " }));
+});
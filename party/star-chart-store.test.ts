@@ -0,0 +1,319 @@
+/**
+ * Unit tests for star chart changes made from several devices at once
+ * Run with: node --import tsx --test party/star-chart-store.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { StarChartStore } from "./star-chart-store";
+import type { ChartStorage, StarChartResult } from "./star-chart-store";
+import type { StarChart, StarChartEvent } from "./star-chart";
+
+// In-memory storage whose operations each take a turn of the event loop, so
+// concurrent changes interleave the way they can in a Durable Object
+class MemoryStorage implements ChartStorage {
+  data = new Map<string, unknown>();
+  // Entries returned by list(), to check what's read
+  listed = 0;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    return structuredClone(this.data.get(key)) as T | undefined;
+  }
+
+  async list<T>(
+    options: {
+      prefix?: string;
+      startAfter?: string;
+      reverse?: boolean;
+      limit?: number;
+    } = {}
+  ): Promise<Map<string, T>> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const keys = Array.from(this.data.keys())
+      .filter((key) => key.startsWith(options.prefix ?? ""))
+      .filter((key) => !options.startAfter || key > options.startAfter)
+      .sort();
+    if (options.reverse) keys.reverse();
+    const listed = keys.slice(0, options.limit);
+    this.listed += listed.length;
+    return new Map(
+      listed.map((key) => [key, structuredClone(this.data.get(key)) as T])
+    );
+  }
+
+  async put<T>(entries: Record<string, T>): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    for (const [key, value] of Object.entries(entries)) {
+      this.data.set(key, structuredClone(value));
+    }
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    return keys.filter((key) => this.data.delete(key)).length;
+  }
+
+  events(): StarChartEvent[] {
+    return Array.from(this.data.entries())
+      .filter(([key]) => key.startsWith("event:"))
+      .map(([, event]) => event as StarChartEvent);
+  }
+}
+
+function makeChart(id: string): StarChart {
+  const now = Date.now();
+  return {
+    id,
+    type: "custom",
+    title: id,
+    totalSquares: 0,
+    dryCount: 0,
+    exchanges: [],
+    rules: {
+      exchangeCost: 5,
+      exchangeRewardName: "TV time",
+      exchangeRewardAmount: 10,
+      exchangeRewardUnit: "min",
+      streakName: "All Day Dry",
+      streakThreshold: 3,
+      streakRewardName: "Big Reward",
+    },
+    daily: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+async function makeStore() {
+  const storage = new MemoryStorage();
+  const store = new StarChartStore(storage, () => {});
+  await store.create(makeChart("stars"));
+  return { storage, store };
+}
+
+// The squares the log says were added and not undone
+function loggedSquares(events: StarChartEvent[]): number {
+  const undone = new Set(events.map((event) => event.undoes));
+  return events
+    .filter((event) => !undone.has(event.id))
+    .reduce(
+      (sum, event) =>
+        event.action === "add"
+          ? sum + event.amount
+          : event.action === "subtract"
+          ? sum - event.amount
+          : sum,
+      0
+    );
+}
+
+// The id of the only undo event
+const undoId = (storage: MemoryStorage) =>
+  storage.events().find((event) => event.action === "undo")?.id;
+
+const chartOf = (result: StarChartResult) => {
+  assert.ok("chart" in result, JSON.stringify(result));
+  return result.chart;
+};
+
+test("taps from two devices at once both count", async () => {
+  const { storage, store } = await makeStore();
+
+  await Promise.all([
+    store.act("stars", "add", 2, "mom"),
+    store.act("stars", "add", 3, "dad"),
+  ]);
+
+  const chart = (await store.get("stars"))!;
+  assert.strictEqual(chart.totalSquares, 5);
+  assert.strictEqual(chart.daily[Object.keys(chart.daily)[0]].earned, 5);
+  assert.strictEqual(storage.events().length, 2);
+  assert.strictEqual(loggedSquares(storage.events()), chart.totalSquares);
+});
+
+test("only one of two exchanges goes through when one can be afforded", async () => {
+  const { storage, store } = await makeStore();
+  await store.act("stars", "add", 7, "mom");
+
+  const results = await Promise.all([
+    store.act("stars", "exchange", undefined, "mom"),
+    store.act("stars", "exchange", undefined, "dad"),
+  ]);
+
+  assert.strictEqual(results.filter((result) => "chart" in result).length, 1);
+  const chart = (await store.get("stars"))!;
+  assert.deepStrictEqual(
+    chart.exchanges.map((exchange) => exchange.squareRange),
+    [[1, 5]]
+  );
+  const exchanges = storage
+    .events()
+    .filter((event) => event.action === "exchange");
+  assert.strictEqual(exchanges.length, 1);
+});
+
+test("an event undone from two devices at once is only reversed once", async () => {
+  const { storage, store } = await makeStore();
+  await store.act("stars", "add", 2, "mom");
+  const added = chartOf(await store.act("stars", "add", 3, "mom"));
+  const [, event] = storage.events().sort((a, b) => (a.id < b.id ? -1 : 1));
+  assert.strictEqual(event.amount, 3);
+
+  const results = await Promise.all([
+    store.undo("stars", event.id, "mom"),
+    store.undo("stars", event.id, "dad"),
+  ]);
+
+  assert.strictEqual(results.filter((result) => "chart" in result).length, 1);
+  const failed = results.find((result) => "error" in result);
+  assert.ok(failed && "status" in failed && failed.status === 409);
+
+  const chart = (await store.get("stars"))!;
+  assert.strictEqual(chart.totalSquares, added.totalSquares - 3);
+  const undos = storage.events().filter((e) => e.action === "undo");
+  assert.strictEqual(undos.length, 1);
+  assert.strictEqual(loggedSquares(storage.events()), chart.totalSquares);
+
+  const [latest] = await store.listEvents("stars");
+  assert.strictEqual(latest.undoes, event.id);
+});
+
+test("a failed change doesn't hold up the next one", async () => {
+  const { store } = await makeStore();
+
+  const [failed, added] = await Promise.all([
+    store.act("stars", "subtract", undefined, "mom"),
+    store.act("stars", "add", 1, "dad"),
+  ]);
+
+  assert.ok("error" in failed && failed.status === 400);
+  assert.strictEqual(chartOf(added).totalSquares, 1);
+});
+
+test("a chart can only be created once", async () => {
+  const { store } = await makeStore();
+  const chart = (await store.get("stars"))!;
+
+  const results = await Promise.all([
+    store.create({ ...chart, id: "new" }),
+    store.create({ ...chart, id: "new" }),
+  ]);
+
+  assert.strictEqual(results.filter((result) => "chart" in result).length, 1);
+  assert.strictEqual((await store.all()).length, 2);
+});
+
+test("charts are listed without reading their history", async () => {
+  const { storage, store } = await makeStore();
+  await store.create(makeChart("moons"));
+  for (let i = 0; i < 20; i++) {
+    await store.act("stars", "add", 1, "mom");
+  }
+
+  storage.listed = 0;
+  const charts = await store.all();
+
+  assert.deepStrictEqual(charts.map((chart) => chart.id).sort(), [
+    "moons",
+    "stars",
+  ]);
+  assert.strictEqual(storage.listed, 2);
+});
+
+test("charts kept under their bare id are moved to chart:{id}", async () => {
+  const storage = new MemoryStorage();
+  storage.data.set("stars", makeChart("stars"));
+  storage.data.set("moons", makeChart("moons"));
+  // More than a page of history, so the migration has to read several
+  for (let i = 0; i < 1200; i++) {
+    const id = `${String(i).padStart(15, "0")}-abcdef`;
+    storage.data.set(`event:stars:${id}`, {
+      id,
+      chartId: "stars",
+      action: "add",
+      amount: 1,
+      userName: "mom",
+      timestamp: i,
+    });
+  }
+  const store = new StarChartStore(storage, () => {});
+
+  const charts = await store.all();
+
+  assert.deepStrictEqual(charts.map((chart) => chart.id).sort(), [
+    "moons",
+    "stars",
+  ]);
+  assert.ok(!storage.data.has("stars") && !storage.data.has("moons"));
+  assert.ok(storage.data.has("chart:stars") && storage.data.has("chart:moons"));
+  assert.strictEqual(storage.events().length, 1200);
+  assert.strictEqual(
+    chartOf(await store.act("stars", "add", 2, "dad")).totalSquares,
+    2
+  );
+
+  // Migrations only run once
+  storage.listed = 0;
+  await new StarChartStore(storage, () => {}).all();
+  assert.strictEqual(storage.listed, 2);
+});
+
+test("undoing an old event doesn't read the history after it", async () => {
+  const { storage, store } = await makeStore();
+  await store.act("stars", "add", 3, "mom");
+  const [first] = storage.events();
+  for (let i = 0; i < 20; i++) {
+    await store.act("stars", "add", 1, "mom");
+  }
+
+  storage.listed = 0;
+  chartOf(await store.undo("stars", first.id, "dad"));
+  const again = await store.undo("stars", first.id, "dad");
+
+  assert.strictEqual(storage.listed, 0);
+  assert.ok("error" in again && again.status === 409);
+  assert.strictEqual(
+    storage.data.get(`undone:stars:${first.id}`),
+    undoId(storage)
+  );
+});
+
+test("events undone before undos were marked stay undone", async () => {
+  const storage = new MemoryStorage();
+  const chart = { ...makeChart("stars"), totalSquares: 2 };
+  storage.data.set("stars", chart);
+  const added = {
+    id: "001700000000000-aaaaaa",
+    chartId: "stars",
+    action: "add",
+    amount: 2,
+    userName: "mom",
+    timestamp: 1700000000000,
+  };
+  const undo = {
+    ...added,
+    id: "001700000000001-bbbbbb",
+    action: "undo",
+    undoes: added.id,
+  };
+  storage.data.set(`event:stars:${added.id}`, added);
+  storage.data.set(`event:stars:${undo.id}`, undo);
+  const store = new StarChartStore(storage, () => {});
+
+  const result = await store.undo("stars", added.id, "dad");
+
+  assert.ok("error" in result && result.status === 409);
+  assert.strictEqual(storage.data.get(`undone:stars:${added.id}`), undo.id);
+});
+
+test("deleting a chart deletes its history", async () => {
+  const { storage, store } = await makeStore();
+  await store.act("stars", "add", 3, "mom");
+  const [event] = storage.events();
+  await store.undo("stars", event.id, "mom");
+
+  await store.delete("stars");
+
+  assert.deepStrictEqual(Array.from(storage.data.keys()), ["storageVersion"]);
+});
@@ -0,0 +1,579 @@
+import { getPacificDate } from "./dates";
+import type {
+  StarChart,
+  StarChartAction,
+  StarChartDay,
+  StarChartEvent,
+  StarChartEventEntry,
+  StarChartExchange,
+  StarChartRules,
+} from "./star-chart";
+
+// The subset of DurableObjectStorage the store uses, so tests can pass a Map
+export interface ChartStorage {
+  get<T>(key: string): Promise<T | undefined>;
+  list<T>(options?: {
+    prefix?: string;
+    startAfter?: string;
+    reverse?: boolean;
+    limit?: number;
+  }): Promise<Map<string, T>>;
+  put<T>(entries: Record<string, T>): Promise<void>;
+  delete(keys: string[]): Promise<number>;
+}
+
+export type StarChartResult =
+  | { chart: StarChart }
+  | { error: string; status: 400 | 404 | 409 };
+
+// The rules Everett's potty chart has always used
+export const DEFAULT_STAR_CHART_RULES: StarChartRules = {
+  exchangeCost: 20,
+  exchangeRewardName: "TV time",
+  exchangeRewardAmount: 20,
+  exchangeRewardUnit: "min",
+  streakName: "All Day Dry",
+  streakThreshold: 20,
+  streakRewardName: "Big Reward",
+};
+
+const CHART_PREFIX = "chart:";
+const EVENT_PREFIX = "event:";
+const UNDONE_PREFIX = "undone:";
+
+// Which migrations storage has had: 1 moved charts from their bare id to
+// chart:{id}, and 2 marked the events undone before then
+const STORAGE_VERSION_KEY = "storageVersion";
+const STORAGE_VERSION = 2;
+
+// Keys read at a time while migrating
+const MIGRATION_PAGE_SIZE = 500;
+
+const notFound = { error: "Star chart not found", status: 404 } as const;
+
+function getChartKey(chartId: string): string {
+  return `${CHART_PREFIX}${chartId}`;
+}
+
+function getEventKey(chartId: string, eventId: string): string {
+  return `${EVENT_PREFIX}${chartId}:${eventId}`;
+}
+
+// Marks an event as undone, so undo needn't search the history for it
+function getUndoneKey(chartId: string, eventId: string): string {
+  return `${UNDONE_PREFIX}${chartId}:${eventId}`;
+}
+
+/**
+ * Fill in defaults for charts saved before a field existed.
+ * Charts created before per-chart rules get the original potty chart rules.
+ */
+export function normalizeChart(
+  chart: Partial<StarChart>,
+  id: string
+): StarChart {
+  return {
+    id: chart.id ?? id,
+    type: chart.type ?? "potty-training",
+    title: chart.title ?? "Everett's Potty Chart",
+    totalSquares: chart.totalSquares ?? 0,
+    dryCount: chart.dryCount ?? 0,
+    exchanges: Array.isArray(chart.exchanges) ? chart.exchanges : [],
+    rules: { ...DEFAULT_STAR_CHART_RULES, ...chart.rules },
+    daily: chart.daily ?? {},
+    createdAt: chart.createdAt ?? Date.now(),
+    updatedAt: chart.updatedAt ?? Date.now(),
+  };
+}
+
+/**
+ * Age out completed exchanges that are past end of day (in Pacific time).
+ * Returns true if any exchanges were removed.
+ */
+export function ageOutOldExchanges(chart: StarChart): boolean {
+  const todayStr = getPacificDate(Date.now());
+
+  const initialLength = chart.exchanges.length;
+
+  // Calculate total squares in exchanges that will be removed
+  const squaresToRemove = chart.exchanges
+    .filter((exchange) => exchange.usedDate < todayStr)
+    .reduce((sum, exchange) => sum + exchange.squaresExchanged, 0);
+
+  // Remove exchanges where usedDate is before today
+  chart.exchanges = chart.exchanges.filter((exchange) => {
+    return exchange.usedDate >= todayStr;
+  });
+
+  // Reduce totalSquares by the number of exchanged squares that were aged out
+  if (squaresToRemove > 0) {
+    chart.totalSquares = Math.max(0, chart.totalSquares - squaresToRemove);
+  }
+
+  return chart.exchanges.length < initialLength;
+}
+
+// Add to (or, with a negative delta, take from) one day's totals
+export function recordDaily(
+  chart: StarChart,
+  timestamp: number,
+  field: keyof StarChartDay,
+  delta: number
+): void {
+  const date = getPacificDate(timestamp);
+  const day = chart.daily[date] ?? {
+    earned: 0,
+    removed: 0,
+    exchanges: 0,
+    streakDays: 0,
+  };
+  day[field] = Math.max(0, day[field] + delta);
+  chart.daily[date] = day;
+}
+
+export function createEvent(
+  chartId: string,
+  action: StarChartAction,
+  amount: number,
+  userName: string
+): StarChartEvent {
+  const now = Date.now();
+  return {
+    id: `${String(now).padStart(15, "0")}-${Math.random()
+      .toString(36)
+      .substr(2, 6)}`,
+    chartId,
+    action,
+    amount,
+    userName,
+    timestamp: now,
+  };
+}
+
+/**
+ * Apply the inverse of an event to the chart.
+ * Returns an error message if the chart has moved on and the event can no
+ * longer be reversed cleanly, in which case the chart is left untouched.
+ */
+export function reverseEvent(
+  chart: StarChart,
+  event: StarChartEvent
+): string | null {
+  const totalExchanged = chart.exchanges.reduce(
+    (sum, ex) => sum + ex.squaresExchanged,
+    0
+  );
+
+  switch (event.action) {
+    case "add":
+      if (chart.totalSquares - event.amount < totalExchanged) {
+        return "Those squares have already been exchanged";
+      }
+      chart.totalSquares -= event.amount;
+      recordDaily(chart, event.timestamp, "earned", -event.amount);
+      return null;
+    case "subtract":
+      chart.totalSquares += event.amount;
+      recordDaily(chart, event.timestamp, "removed", -event.amount);
+      return null;
+    case "exchange": {
+      const index = chart.exchanges.findIndex(
+        (ex) => ex.timestamp === event.exchange?.timestamp
+      );
+      if (index === -1) {
+        return "That exchange has already aged out";
+      }
+      const [removed] = chart.exchanges.splice(index, 1);
+      // Close the gap so later exchanges stay contiguous on the grid
+      for (const ex of chart.exchanges.slice(index)) {
+        ex.squareRange = [
+          ex.squareRange[0] - removed.squaresExchanged,
+          ex.squareRange[1] - removed.squaresExchanged,
+        ];
+      }
+      recordDaily(chart, event.timestamp, "exchanges", -1);
+      return null;
+    }
+    case "dry-day":
+      if (chart.dryCount < event.amount) {
+        return "That day has already been spent on a reward";
+      }
+      chart.dryCount -= event.amount;
+      recordDaily(chart, event.timestamp, "streakDays", -event.amount);
+      return null;
+    case "dry-reward":
+      chart.dryCount += event.amount;
+      return null;
+    case "undo":
+      return "An undo can't be undone";
+  }
+}
+
+/**
+ * Every star chart and its event log, kept in storage.
+ *
+ * Each change reads the chart, checks it, applies the change and writes the
+ * chart together with its event, with no other change to the same chart in
+ * between: changes to a chart wait for the one before to finish. So two
+ * devices tapping at once both count, the totals always match the log, and
+ * an event can only be undone once.
+ */
+export class StarChartStore {
+  private storage: ChartStorage;
+  private onChange: (chart: StarChart) => void;
+  // The last change queued for each chart
+  private queues = new Map<string, Promise<unknown>>();
+  // Storage migrations, run before anything else reads or writes
+  private migration: Promise<void> | null = null;
+
+  constructor(storage: ChartStorage, onChange: (chart: StarChart) => void) {
+    this.storage = storage;
+    this.onChange = onChange;
+  }
+
+  // All charts, most recently changed first
+  async all(): Promise<StarChart[]> {
+    await this.migrated();
+    const entries = await this.storage.list<StarChart>({
+      prefix: CHART_PREFIX,
+    });
+    return Array.from(entries, ([key, chart]) =>
+      normalizeChart(chart, key.slice(CHART_PREFIX.length))
+    ).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  // Get a chart, aging out old exchanges first
+  async get(id: string): Promise<StarChart | null> {
+    return this.exclusive(id, () => this.load(id));
+  }
+
+  // Chart ids come from the title, so two charts can't share a title
+  async create(chart: StarChart): Promise<StarChartResult> {
+    return this.exclusive(chart.id, async () => {
+      if (await this.storage.get<StarChart>(getChartKey(chart.id))) {
+        return { error: "A chart with this name already exists", status: 409 };
+      }
+      return this.save(chart);
+    });
+  }
+
+  // Change the title and reward rules
+  async update(
+    id: string,
+    title: string,
+    rules: StarChartRules
+  ): Promise<StarChartResult> {
+    return this.exclusive(id, async () => {
+      const chart = await this.load(id);
+      if (!chart) {
+        return notFound;
+      }
+
+      chart.title = title;
+      chart.rules = rules;
+      chart.updatedAt = Date.now();
+      return this.save(chart);
+    });
+  }
+
+  /**
+   * Add, subtract or exchange squares, or mark or spend streak days, and log
+   * it as an event
+   * @param id The chart
+   * @param action What was tapped
+   * @param amount Squares to add, for "add"
+   * @param userName Who did it
+   * @returns The changed chart, or why it couldn't be changed
+   */
+  async act(
+    id: string,
+    action: string,
+    amount: number | undefined,
+    userName: string
+  ): Promise<StarChartResult> {
+    return this.exclusive(id, async () => {
+      const chart = await this.load(id);
+      if (!chart) {
+        return notFound;
+      }
+      const { rules } = chart;
+
+      // Calculate current active squares (total - exchanged)
+      const totalExchanged = chart.exchanges.reduce(
+        (sum, ex) => sum + ex.squaresExchanged,
+        0
+      );
+      const activeSquares = chart.totalSquares - totalExchanged;
+
+      let event: StarChartEvent;
+      if (action === "add") {
+        if (typeof amount !== "number" || amount <= 0) {
+          return { error: "Invalid amount", status: 400 };
+        }
+
+        chart.totalSquares += amount;
+        chart.updatedAt = Date.now();
+        recordDaily(chart, chart.updatedAt, "earned", amount);
+        event = createEvent(chart.id, action, amount, userName);
+      } else if (action === "subtract") {
+        // Only subtract from active squares
+        if (activeSquares <= 0) {
+          return { error: "No active squares to subtract", status: 400 };
+        }
+
+        chart.totalSquares = Math.max(totalExchanged, chart.totalSquares - 1);
+        chart.updatedAt = Date.now();
+        recordDaily(chart, chart.updatedAt, "removed", 1);
+        event = createEvent(chart.id, action, 1, userName);
+      } else if (action === "exchange") {
+        // Validate we have enough active squares
+        if (activeSquares < rules.exchangeCost) {
+          return {
+            error: `Need at least ${rules.exchangeCost} active squares to exchange`,
+            status: 400,
+          };
+        }
+
+        // Calculate the square range for this exchange
+        const now = Date.now();
+        const newExchange: StarChartExchange = {
+          timestamp: now,
+          squaresExchanged: rules.exchangeCost,
+          squareRange: [
+            totalExchanged + 1,
+            totalExchanged + rules.exchangeCost,
+          ],
+          usedDate: getPacificDate(now),
+        };
+
+        chart.exchanges.push(newExchange);
+        chart.updatedAt = now;
+        recordDaily(chart, chart.updatedAt, "exchanges", 1);
+        event = {
+          ...createEvent(chart.id, action, rules.exchangeCost, userName),
+          exchange: newExchange,
+        };
+      } else if (action === "dry-day") {
+        chart.dryCount += 1;
+        chart.updatedAt = Date.now();
+        recordDaily(chart, chart.updatedAt, "streakDays", 1);
+        event = createEvent(chart.id, action, 1, userName);
+      } else if (action === "dry-reward") {
+        if (chart.dryCount < rules.streakThreshold) {
+          return {
+            error: `Need at least ${rules.streakThreshold} days to claim ${rules.streakRewardName}`,
+            status: 400,
+          };
+        }
+        chart.dryCount -= rules.streakThreshold;
+        chart.updatedAt = Date.now();
+        event = createEvent(chart.id, action, rules.streakThreshold, userName);
+      } else {
+        return { error: "Invalid action", status: 400 };
+      }
+
+      return this.save(chart, [event]);
+    });
+  }
+
+  // Reverse an earlier event, recording the undo as an event of its own
+  async undo(
+    id: string,
+    eventId: string,
+    userName: string
+  ): Promise<StarChartResult> {
+    return this.exclusive(id, async () => {
+      const chart = await this.load(id);
+      if (!chart) {
+        return notFound;
+      }
+
+      const event = await this.getEvent(id, eventId);
+      if (!event) {
+        return { error: "Event not found", status: 404 };
+      }
+      if (event.undoneBy) {
+        return { error: "Already undone", status: 409 };
+      }
+
+      const error = reverseEvent(chart, event);
+      if (error) {
+        return { error, status: 409 };
+      }
+
+      chart.updatedAt = Date.now();
+      const undo = createEvent(chart.id, "undo", event.amount, userName);
+      return this.save(chart, [{ ...undo, undoes: event.id }]);
+    });
+  }
+
+  // Delete a chart and its history
+  async delete(id: string): Promise<void> {
+    return this.exclusive(id, async () => {
+      const events = await this.storage.list({ prefix: getEventKey(id, "") });
+      const undone = await this.storage.list({ prefix: getUndoneKey(id, "") });
+      await this.storage.delete([
+        getChartKey(id),
+        ...events.keys(),
+        ...undone.keys(),
+      ]);
+    });
+  }
+
+  // A chart's events, newest first
+  async listEvents(
+    chartId: string,
+    limit: number = 50
+  ): Promise<StarChartEventEntry[]> {
+    await this.migrated();
+    const entries = await this.storage.list<StarChartEvent>({
+      prefix: getEventKey(chartId, ""),
+      reverse: true,
+      limit,
+    });
+    const events = Array.from(entries.values());
+
+    // Undos are newer than what they reverse, so any undo of a listed event
+    // is in the list too
+    const undoneBy = new Map<string, string>();
+    for (const event of events) {
+      if (event.undoes) {
+        undoneBy.set(event.undoes, event.id);
+      }
+    }
+
+    return events.map((event) => ({
+      ...event,
+      undoneBy: undoneBy.get(event.id) ?? null,
+    }));
+  }
+
+  // One event, with whether it has been undone
+  private async getEvent(
+    chartId: string,
+    eventId: string
+  ): Promise<StarChartEventEntry | null> {
+    const [event, undoneBy] = await Promise.all([
+      this.storage.get<StarChartEvent>(getEventKey(chartId, eventId)),
+      this.storage.get<string>(getUndoneKey(chartId, eventId)),
+    ]);
+    return event ? { ...event, undoneBy: undoneBy ?? null } : null;
+  }
+
+  // Run a change once every earlier change to the chart has finished
+  private exclusive<T>(id: string, change: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(id) ?? Promise.resolve();
+    const result = previous.then(async () => {
+      await this.migrated();
+      return change();
+    });
+    // A change that fails still lets the next one run
+    const queued = result.catch(() => {});
+    this.queues.set(id, queued);
+    queued.then(() => {
+      if (this.queues.get(id) === queued) {
+        this.queues.delete(id);
+      }
+    });
+    return result;
+  }
+
+  // Resolves once storage has been migrated. A migration that fails is tried
+  // again next time.
+  private migrated(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.migrate().catch((error) => {
+        this.migration = null;
+        throw error;
+      });
+    }
+    return this.migration;
+  }
+
+  // Bring storage up to STORAGE_VERSION. Storage is read a page at a time,
+  // as it also holds every chart's history.
+  private async migrate(): Promise<void> {
+    const version = (await this.storage.get<number>(STORAGE_VERSION_KEY)) ?? 0;
+    if (version >= STORAGE_VERSION) {
+      return;
+    }
+
+    let startAfter: string | undefined;
+    for (;;) {
+      const page = await this.storage.list<unknown>({
+        startAfter,
+        limit: MIGRATION_PAGE_SIZE,
+      });
+      const moved: Record<string, unknown> = {};
+      const marked: Record<string, string> = {};
+      for (const [key, value] of page) {
+        if (key.startsWith(EVENT_PREFIX)) {
+          const event = value as StarChartEvent;
+          if (version < 2 && event.undoes) {
+            marked[getUndoneKey(event.chartId, event.undoes)] = event.id;
+          }
+        } else if (
+          version < 1 &&
+          !key.startsWith(CHART_PREFIX) &&
+          !key.startsWith(UNDONE_PREFIX) &&
+          key !== STORAGE_VERSION_KEY
+        ) {
+          moved[getChartKey(key)] = value;
+        }
+      }
+
+      // Written before the old keys go, so a migration cut short loses nothing
+      if (Object.keys(moved).length + Object.keys(marked).length > 0) {
+        await this.storage.put({ ...moved, ...marked });
+      }
+      if (Object.keys(moved).length > 0) {
+        await this.storage.delete(
+          Object.keys(moved).map((key) => key.slice(CHART_PREFIX.length))
+        );
+      }
+
+      if (page.size < MIGRATION_PAGE_SIZE) {
+        break;
+      }
+      startAfter = Array.from(page.keys()).pop();
+    }
+
+    await this.storage.put({ [STORAGE_VERSION_KEY]: STORAGE_VERSION });
+  }
+
+  // Read a chart, saving it if old exchanges aged out. Only call from inside
+  // exclusive().
+  private async load(id: string): Promise<StarChart | null> {
+    const stored = await this.storage.get<StarChart>(getChartKey(id));
+    if (!stored) {
+      return null;
+    }
+
+    const chart = normalizeChart(stored, id);
+    if (ageOutOldExchanges(chart)) {
+      chart.updatedAt = Date.now();
+      await this.save(chart);
+    }
+    return chart;
+  }
+
+  // Write the chart and the events that changed it in one put, marking any
+  // event they undo, so the chart and its history can't get out of step
+  private async save(
+    chart: StarChart,
+    events: StarChartEvent[] = []
+  ): Promise<{ chart: StarChart }> {
+    const entries: Record<string, StarChart | StarChartEvent | string> = {
+      [getChartKey(chart.id)]: chart,
+    };
+    for (const event of events) {
+      entries[getEventKey(event.chartId, event.id)] = event;
+      if (event.undoes) {
+        entries[getUndoneKey(event.chartId, event.undoes)] = event.id;
+      }
+    }
+    await this.storage.put(entries);
+    this.onChange(chart);
+    return { chart };
+  }
+}
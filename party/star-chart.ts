@@ -1,135 +1,191 @@
 import { Server } from "partyserver";
+import type { Connection, ConnectionContext } from "partyserver";
+import { StarChartStore } from "./star-chart-store";
+import type { StarChartResult } from "./star-chart-store";
 
 export type StarChartExchange = {
   timestamp: number;
-  squaresExchanged: number; // Always 20
+  squaresExchanged: number; // The chart's exchangeCost at the time
   squareRange: [number, number]; // e.g., [1, 20] for first exchange
-  usedDate: string; // ISO date string (YYYY-MM-DD) when TV time was used
+  usedDate: string; // ISO date string (YYYY-MM-DD) when the reward was used
+};
+
+export type StarChartRules = {
+  exchangeCost: number; // Squares spent per exchange (also the grid row width), e.g., 20
+  exchangeRewardName: string; // e.g., "TV time"
+  exchangeRewardAmount: number; // Reward per exchange, e.g., 20
+  exchangeRewardUnit: string; // e.g., "min"
+  streakName: string; // e.g., "All Day Dry"
+  streakThreshold: number; // Streak days needed for the big reward, e.g., 20
+  streakRewardName: string; // e.g., "Big Reward"
+};
+
+// Totals for one Pacific-time calendar day. Kept forever (unlike exchanges,
+// which age out) so progress can be charted over time.
+export type StarChartDay = {
+  earned: number; // Squares added
+  removed: number; // Squares taken back with -1
+  exchanges: number; // Reward exchanges made
+  streakDays: number; // Times the streak (e.g., All Day Dry) was marked
 };
 
 export type StarChart = {
-  id: string; // e.g., "everett-potty" (allows future charts)
+  id: string; // e.g., "everett-potty", used in /star-chart/:id
   type: string; // e.g., "potty-training" (allows different chart types)
   title: string; // e.g., "Everett's Potty Chart"
   totalSquares: number; // Total accumulated (never decreases)
-  dryCount: number; // All-day-dry counter toward big reward
-  exchanges: StarChartExchange[]; // History of TV time exchanges
+  dryCount: number; // Streak counter toward the big reward (all-day-dry days on the original chart)
+  exchanges: StarChartExchange[]; // History of reward exchanges
+  rules: StarChartRules;
+  daily: Record<string, StarChartDay>; // Keyed by YYYY-MM-DD (Pacific time)
   createdAt: number;
   updatedAt: number;
 };
 
+export type StarChartAction =
+  | "add"
+  | "subtract"
+  | "exchange"
+  | "dry-day"
+  | "dry-reward"
+  | "undo";
+
+// One entry in a chart's append-only history. Events are never edited or
+// deleted; undoing an event appends an "undo" event that points back at it.
+export type StarChartEvent = {
+  id: string; // Zero-padded timestamp plus a random suffix, so keys sort chronologically
+  chartId: string;
+  action: StarChartAction;
+  amount: number; // Squares or streak days the action changed
+  userName: string; // Session userName of whoever did it
+  timestamp: number;
+  exchange?: StarChartExchange; // The exchange an "exchange" event created
+  undoes?: string; // For "undo" events, the id of the event that was reversed
+};
+
+// An event as returned by listEvents, with whether it has since been undone
+export type StarChartEventEntry = StarChartEvent & {
+  undoneBy: string | null; // Id of the undo event, if any
+};
+
+// Sent to every socket watching a chart whenever it changes, and on connect
+export type StarChartMessage = {
+  type: "chart";
+  chart: StarChart;
+};
+
 /**
  * StarChartServer provides low-level storage operations for star charts.
  * Similar to DocumentsServer but for star chart data.
- * Storage keys use chart `id` for future multiple chart support.
+ * Each chart carries its own reward rules.
+ * Pages also connect over WebSocket with ?chart={id}, and get the chart pushed
+ * to them after every change so all open devices stay in sync.
+ * Storage keys:
+ * - chart:{chartId} → StarChart
+ * - event:{chartId}:{eventId} → StarChartEvent
+ * - undone:{chartId}:{eventId} → id of the undo event that reversed it
+ * - storageVersion → number, the migrations storage has had
+ * Every change is checked and applied here, in StarChartStore, rather than
+ * by the caller, so concurrent changes can't overwrite each other.
+ * The Remix API routes call its methods directly over Durable Object RPC
+ * (see app/utils/storage.server.ts); only WebSockets are routed to it.
  */
 export class StarChartServer extends Server {
-  async onRequest(request: Request): Promise<Response> {
-    const url = new URL(request.url);
-
-    // The pathname will be like /parties/star-chart-server/{room}/storage-*
-    // We need to extract the path after the room name
-    const pathMatch = url.pathname.match(
-      /^\/parties\/star-chart-server\/[^/]+(.*)$/
-    );
-    const path = pathMatch ? pathMatch[1] : url.pathname;
-
-    // Storage operation: List all star charts
-    if (request.method === "GET" && path === "/storage-list") {
-      const charts = await this.getAllCharts();
-      return Response.json(charts);
-    }
+  // Connections only need to receive messages, so let them hibernate
+  static options = {
+    hibernate: true,
+  };
+
+  private store = new StarChartStore(this.ctx.storage, (chart) =>
+    this.broadcastChart(chart)
+  );
+
+  // Tag each connection with the chart it's watching
+  getConnectionTags(_connection: Connection, ctx: ConnectionContext): string[] {
+    const chartId = new URL(ctx.request.url).searchParams.get("chart");
+    return chartId ? [chartId] : [];
+  }
 
-    // Storage operation: Get a specific chart by id
-    if (request.method === "GET" && path.startsWith("/storage-get/")) {
-      const idEncoded = path.split("/").pop();
-      if (!idEncoded) {
-        return new Response("Not found", { status: 404 });
-      }
-
-      const id = decodeURIComponent(idEncoded);
-      const chart = await this.ctx.storage.get<StarChart>(id);
-      if (!chart) {
-        return new Response("Not found", { status: 404 });
-      }
-
-      // Age out old exchanges and save if any were removed
-      const wasModified = this.ageOutOldExchanges(chart);
-      if (wasModified) {
-        chart.updatedAt = Date.now();
-        await this.ctx.storage.put(id, chart);
-      }
-
-      return Response.json(chart);
+  async onConnect(
+    connection: Connection,
+    ctx: ConnectionContext
+  ): Promise<void> {
+    // Send the current state so a reconnecting page catches up on missed changes
+    const chartId = new URL(ctx.request.url).searchParams.get("chart");
+    const chart = chartId ? await this.store.get(chartId) : null;
+    if (chart) {
+      connection.send(
+        JSON.stringify({ type: "chart", chart } satisfies StarChartMessage)
+      );
     }
+  }
 
-    // Storage operation: Put (create or update) a chart
-    // Key should be the chart id
-    if (request.method === "POST" && path === "/storage-put") {
-      const body = (await request.json()) as { value: StarChart };
-      await this.ctx.storage.put(body.value.id, body.value);
-      return Response.json({ success: true });
-    }
+  async onRequest(): Promise<Response> {
+    return new Response("Not found", { status: 404 });
+  }
 
-    // Storage operation: Delete a chart by id
-    if (request.method === "POST" && path.startsWith("/storage-delete/")) {
-      const idEncoded = path.split("/").pop();
-      if (!idEncoded) {
-        return new Response("Not found", { status: 404 });
-      }
+  // All charts, most recently changed first
+  async listCharts(): Promise<StarChart[]> {
+    return this.store.all();
+  }
 
-      const id = decodeURIComponent(idEncoded);
-      await this.ctx.storage.delete(id);
-      return Response.json({ success: true });
-    }
+  // Get a chart, aging out old exchanges first
+  async getChart(id: string): Promise<StarChart | null> {
+    return this.store.get(id);
+  }
 
-    return new Response("Not found", { status: 404 });
+  async createChart(chart: StarChart): Promise<StarChartResult> {
+    return this.store.create(chart);
   }
 
-  private async getAllCharts(): Promise<StarChart[]> {
-    const charts: StarChart[] = [];
+  // Change the title and reward rules
+  async updateChart(
+    id: string,
+    title: string,
+    rules: StarChartRules
+  ): Promise<StarChartResult> {
+    return this.store.update(id, title, rules);
+  }
 
-    await this.ctx.storage.list<StarChart>().then((entries) => {
-      for (const [, chart] of entries) {
-        charts.push(chart);
-      }
-    });
+  // Apply a tap on the chart (add, subtract, exchange, ...) and log it
+  async applyAction(
+    id: string,
+    action: string,
+    amount: number | undefined,
+    userName: string
+  ): Promise<StarChartResult> {
+    return this.store.act(id, action, amount, userName);
+  }
 
-    // Sort by updatedAt descending
-    return charts.sort((a, b) => b.updatedAt - a.updatedAt);
+  // Reverse an earlier event, unless it has already been undone
+  async undoEvent(
+    id: string,
+    eventId: string,
+    userName: string
+  ): Promise<StarChartResult> {
+    return this.store.undo(id, eventId, userName);
   }
 
-  /**
-   * Age out completed exchanges that are past end of day (in Pacific time).
-   * Returns true if any exchanges were removed.
-   */
-  private ageOutOldExchanges(chart: StarChart): boolean {
-    // Get today's date in Pacific time
-    const formatter = new Intl.DateTimeFormat("en-CA", {
-      timeZone: "America/Los_Angeles",
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-    });
-    const todayStr = formatter.format(new Date()); // Returns YYYY-MM-DD
-
-    const initialLength = chart.exchanges.length;
-
-    // Calculate total squares in exchanges that will be removed
-    const squaresToRemove = chart.exchanges
-      .filter((exchange) => exchange.usedDate < todayStr)
-      .reduce((sum, exchange) => sum + exchange.squaresExchanged, 0);
-
-    // Remove exchanges where usedDate is before today
-    chart.exchanges = chart.exchanges.filter((exchange) => {
-      return exchange.usedDate >= todayStr;
-    });
-
-    // Reduce totalSquares by the number of exchanged squares that were aged out
-    if (squaresToRemove > 0) {
-      chart.totalSquares = Math.max(0, chart.totalSquares - squaresToRemove);
-    }
+  // Delete a chart and its history
+  async deleteChart(id: string): Promise<void> {
+    return this.store.delete(id);
+  }
 
-    return chart.exchanges.length < initialLength;
+  // A chart's events, newest first
+  async listEvents(
+    chartId: string,
+    limit: number = 50
+  ): Promise<StarChartEventEntry[]> {
+    return this.store.listEvents(chartId, limit);
+  }
+
+  private broadcastChart(chart: StarChart): void {
+    const message = JSON.stringify({
+      type: "chart",
+      chart,
+    } satisfies StarChartMessage);
+    for (const connection of this.getConnections(chart.id)) {
+      connection.send(message);
+    }
   }
 }
@@ -0,0 +1,242 @@
+import { Server } from "partyserver";
+
+export type User = {
+  id: string; // Stable identifier stored in the session cookie
+  name: string; // Display name, unique (case-insensitive)
+  isAdmin: boolean; // Admins can add and remove household members
+  createdAt: number;
+  updatedAt: number;
+};
+
+// What actually lives in storage. Password material never leaves this server.
+type StoredUser = User & {
+  passwordHash: string; // Base64 PBKDF2-SHA256 digest
+  salt: string; // Base64 random salt
+};
+
+export type CreateUserResult = { user: User } | { error: string };
+
+// Workers caps PBKDF2 at 100k iterations
+const PBKDF2_ITERATIONS = 100_000;
+
+const USER_PREFIX = "user:";
+const NAME_PREFIX = "name:";
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+async function derivePasswordHash(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+// A fresh salt and the password's digest, ready to store
+async function hashPassword(
+  password: string
+): Promise<Pick<StoredUser, "passwordHash" | "salt">> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    passwordHash: toBase64(await derivePasswordHash(password, salt)),
+    salt: toBase64(salt),
+  };
+}
+
+// Compare digests without short-circuiting on the first differing byte
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+function toPublicUser(stored: StoredUser): User {
+  const { passwordHash: _hash, salt: _salt, ...user } = stored;
+  return user;
+}
+
+/**
+ * UsersServer stores household member accounts with hashed passwords.
+ * Unlike the other servers it is never routed to over HTTP: the Remix app calls
+ * its methods directly over Durable Object RPC (see app/utils/users.server.ts),
+ * because the session check for /parties/* itself depends on it.
+ * Storage keys:
+ * - user:{id} → StoredUser
+ * - name:{lowercased name} → id (enforces unique names)
+ */
+export class UsersServer extends Server {
+  async onRequest(): Promise<Response> {
+    return new Response("Not found", { status: 404 });
+  }
+
+  async countUsers(): Promise<number> {
+    const entries = await this.ctx.storage.list({ prefix: USER_PREFIX });
+    return entries.size;
+  }
+
+  async listUsers(): Promise<User[]> {
+    const entries = await this.ctx.storage.list<StoredUser>({
+      prefix: USER_PREFIX,
+    });
+    return Array.from(entries.values())
+      .map(toPublicUser)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    const stored = await this.ctx.storage.get<StoredUser>(
+      `${USER_PREFIX}${id}`
+    );
+    return stored ? toPublicUser(stored) : null;
+  }
+
+  async createUser(
+    name: string,
+    password: string,
+    isAdmin: boolean
+  ): Promise<CreateUserResult> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      return { error: "Name is required" };
+    }
+    if (password.length < 8) {
+      return { error: "Password must be at least 8 characters" };
+    }
+
+    // Hash before the uniqueness check so nothing but storage calls sit between
+    // the check and the write (the input gate keeps those two atomic)
+    const credentials = await hashPassword(password);
+
+    const nameKey = `${NAME_PREFIX}${trimmedName.toLowerCase()}`;
+    if (await this.ctx.storage.get<string>(nameKey)) {
+      return { error: "A member with this name already exists" };
+    }
+
+    return { user: await this.insertUser(trimmedName, isAdmin, credentials) };
+  }
+
+  /**
+   * Creates the first account, as an admin, while there are no accounts yet.
+   * Returns null once anyone exists. Checking here rather than in the caller
+   * means two simultaneous first sign-ins can't both become admins.
+   * The password is the existing HOUSEHOLD_PASSWORD, so it isn't held to the
+   * 8-character minimum.
+   */
+  async createFirstAdmin(
+    name: string,
+    password: string
+  ): Promise<CreateUserResult | null> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      return { error: "Name is required" };
+    }
+    // Skip hashing on every later sign-in with the household password
+    if ((await this.countUsers()) > 0) {
+      return null;
+    }
+
+    const credentials = await hashPassword(password);
+    if ((await this.countUsers()) > 0) {
+      return null;
+    }
+
+    return { user: await this.insertUser(trimmedName, true, credentials) };
+  }
+
+  private async insertUser(
+    name: string,
+    isAdmin: boolean,
+    credentials: Pick<StoredUser, "passwordHash" | "salt">
+  ): Promise<User> {
+    const now = Date.now();
+    const stored: StoredUser = {
+      id: `user-${now}-${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      isAdmin,
+      createdAt: now,
+      updatedAt: now,
+      ...credentials,
+    };
+
+    await this.ctx.storage.put({
+      [`${USER_PREFIX}${stored.id}`]: stored,
+      [`${NAME_PREFIX}${name.toLowerCase()}`]: stored.id,
+    });
+
+    return toPublicUser(stored);
+  }
+
+  async setPassword(id: string, password: string): Promise<boolean> {
+    const stored = await this.ctx.storage.get<StoredUser>(
+      `${USER_PREFIX}${id}`
+    );
+    if (!stored || password.length < 8) {
+      return false;
+    }
+
+    await this.ctx.storage.put(`${USER_PREFIX}${id}`, {
+      ...stored,
+      ...(await hashPassword(password)),
+      updatedAt: Date.now(),
+    });
+    return true;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const stored = await this.ctx.storage.get<StoredUser>(
+      `${USER_PREFIX}${id}`
+    );
+    if (!stored) {
+      return false;
+    }
+
+    await this.ctx.storage.delete([
+      `${USER_PREFIX}${id}`,
+      `${NAME_PREFIX}${stored.name.toLowerCase()}`,
+    ]);
+    return true;
+  }
+
+  /**
+   * Returns the user if the name and password match, otherwise null
+   */
+  async verifyCredentials(
+    name: string,
+    password: string
+  ): Promise<User | null> {
+    const id = await this.ctx.storage.get<string>(
+      `${NAME_PREFIX}${name.trim().toLowerCase()}`
+    );
+    const stored = id
+      ? await this.ctx.storage.get<StoredUser>(`${USER_PREFIX}${id}`)
+      : undefined;
+    if (!stored) {
+      return null;
+    }
+
+    const hash = await derivePasswordHash(password, fromBase64(stored.salt));
+    return timingSafeEqual(hash, fromBase64(stored.passwordHash))
+      ? toPublicUser(stored)
+      : null;
+  }
+}
@@ -1,6 +1,19 @@
 import { Server } from "partyserver";
-import { onConnect } from "y-partykit";
+import { onConnect, unstable_getYDoc } from "y-partykit";
+import type { YPartyKitOptions } from "y-partykit";
 import type { Connection, ConnectionContext } from "partyserver";
+import * as Y from "yjs";
+import { getUserName } from "../app/utils/session.server";
+import { AuthorTracker } from "./authors";
+import type { AuthorState } from "./authors";
+import {
+  appendNodes,
+  fragmentToNodes,
+  getTitleText,
+  removeCheckedItems,
+} from "./document-format";
+import type { DocumentNode } from "./document-format";
+import type { Env } from "./main";
 
 // Define a compatibility type for y-partykit
 type YPartykitRoom = {
@@ -8,19 +21,169 @@ type YPartykitRoom = {
   storage: DurableObjectStorage;
 };
 
+export type DocumentVersion = {
+  id: string; // Zero-padded timestamp, so storage keys sort chronologically
+  timestamp: number;
+  authors: string[]; // Session userNames of everyone who edited since the previous version
+  size: number; // Size of the encoded Yjs update in bytes
+};
+
+// Storage key prefixes for versions. y-partykit keeps its own keys under "v1*",
+// so these never collide with the live document snapshot.
+const VERSION_META_PREFIX = "version-meta:";
+const VERSION_DATA_PREFIX = "version-data:";
+
+// Oldest versions are pruned once a document has more than this many
+const MAX_VERSIONS = 100;
+
+/**
+ * YjsServer syncs a single collaborative document (the room name is the document id)
+ * and keeps periodic version snapshots alongside y-partykit's own persistence.
+ * A version is written once editing has been quiet for a minute, and at least
+ * every ten minutes during continuous editing.
+ * Versions and the live content are read by the Remix API routes over Durable
+ * Object RPC (see app/utils/storage.server.ts).
+ */
 export class YjsServer extends Server {
-  async onConnect(connection: Connection, context: ConnectionContext): Promise<void> {
+  private authors = new AuthorTracker();
+
+  private getRoom(): YPartykitRoom {
     // Create a compatibility object for y-partykit
-    const room: YPartykitRoom = {
+    return {
       id: this.name,
       storage: this.ctx.storage,
     };
+  }
 
-    // Use y-partykit's onConnect with our compatibility layer
-    return onConnect(connection as any, room as any, {
+  private getOptions(): YPartyKitOptions {
+    // These must be identical for every onConnect/unstable_getYDoc call
+    return {
       persist: {
         mode: "snapshot",
       },
+      callback: {
+        handler: (doc) => this.saveVersion(doc),
+        debounceWait: 60 * 1000,
+        debounceMaxWait: 10 * 60 * 1000,
+      },
+    };
+  }
+
+  async onConnect(
+    connection: Connection,
+    context: ConnectionContext
+  ): Promise<void> {
+    // Remember who is on the other end of this connection so edits can be attributed
+    const env = this.env as Env;
+    const name = (await getUserName(context.request, env)) || "Unknown";
+    connection.setState({ name } satisfies AuthorState);
+
+    const room = this.getRoom();
+    const options = this.getOptions();
+
+    this.authors.listen(await unstable_getYDoc(room as any, options));
+
+    // Use y-partykit's onConnect with our compatibility layer
+    return onConnect(connection as any, room as any, options);
+  }
+
+  async onRequest(): Promise<Response> {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // Version metadata, newest first
+  async listVersions(): Promise<DocumentVersion[]> {
+    const entries = await this.ctx.storage.list<DocumentVersion>({
+      prefix: VERSION_META_PREFIX,
+      reverse: true,
+    });
+    return Array.from(entries.values());
+  }
+
+  // The full Yjs state of a version, as a binary update
+  async getVersion(id: string): Promise<Uint8Array<ArrayBuffer> | null> {
+    const data = await this.ctx.storage.get<Uint8Array<ArrayBuffer>>(
+      `${VERSION_DATA_PREFIX}${id}`
+    );
+    return data ?? null;
+  }
+
+  // The live title and content, as the editor would see them
+  async getContent(): Promise<{ title: string; content: DocumentNode[] }> {
+    const doc = await unstable_getYDoc(
+      this.getRoom() as any,
+      this.getOptions()
+    );
+    return {
+      title: getTitleText(
+        fragmentToNodes(doc.getXmlFragment(`${this.name}-title`))
+      ),
+      content: fragmentToNodes(doc.getXmlFragment(`${this.name}-content`)),
+    };
+  }
+
+  // Replace the content, and the title if one is given, e.g. with an
+  // imported file. Anyone with the document open receives it as one update.
+  async setContent(content: DocumentNode[], title?: string): Promise<void> {
+    const doc = await unstable_getYDoc(
+      this.getRoom() as any,
+      this.getOptions()
+    );
+    const titleFragment = doc.getXmlFragment(`${this.name}-title`);
+    const contentFragment = doc.getXmlFragment(`${this.name}-content`);
+    doc.transact(() => {
+      if (title !== undefined) {
+        titleFragment.delete(0, titleFragment.length);
+        appendNodes(titleFragment, [
+          {
+            type: "paragraph",
+            ...(title && { content: [{ type: "text", text: title }] }),
+          },
+        ]);
+      }
+      contentFragment.delete(0, contentFragment.length);
+      appendNodes(contentFragment, content);
     });
   }
+
+  // Remove checked items, as the Clear checked button does. Returns what's left.
+  async clearChecked(): Promise<DocumentNode[]> {
+    const doc = await unstable_getYDoc(
+      this.getRoom() as any,
+      this.getOptions()
+    );
+    const contentFragment = doc.getXmlFragment(`${this.name}-content`);
+    doc.transact(() => removeCheckedItems(contentFragment));
+    return fragmentToNodes(contentFragment);
+  }
+
+  private async saveVersion(doc: Y.Doc): Promise<void> {
+    const now = Date.now();
+    const id = String(now).padStart(15, "0");
+    const update = Y.encodeStateAsUpdate(doc);
+
+    const version: DocumentVersion = {
+      id,
+      timestamp: now,
+      authors: this.authors.take(),
+      size: update.byteLength,
+    };
+
+    await this.ctx.storage.put({
+      [`${VERSION_META_PREFIX}${id}`]: version,
+      [`${VERSION_DATA_PREFIX}${id}`]: update,
+    });
+
+    // Prune the oldest versions beyond the limit
+    const versions = await this.listVersions();
+    const stale = versions.slice(MAX_VERSIONS);
+    if (stale.length > 0) {
+      await this.ctx.storage.delete(
+        stale.flatMap((v) => [
+          `${VERSION_META_PREFIX}${v.id}`,
+          `${VERSION_DATA_PREFIX}${v.id}`,
+        ])
+      );
+    }
+  }
 }
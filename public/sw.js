@@ -0,0 +1,177 @@
+/**
+ * Service worker for the household hub.
+ *
+ * - /build/ assets (content-hashed by Remix) are cache-first. The page sends
+ *   the full list from the Remix manifest after registering, so every route
+ *   works offline, not just the ones already visited.
+ * - Pages, Remix loader data (?_data=) and the document and star chart lists
+ *   are network-first, falling back to the last copy we saw.
+ * - The /, /docs and /star-chart shells are fetched up front on install.
+ * - Everything else (party WebSockets, writes, other APIs) goes straight to
+ *   the network.
+ */
+
+const VERSION = "v1";
+const STATIC_CACHE = `household-static-${VERSION}`;
+const PAGES_CACHE = `household-pages-${VERSION}`;
+
+const SHELL_URLS = ["/", "/docs", "/star-chart"];
+
+// GET endpoints whose last response is worth showing offline
+const CACHED_API_PATHS = [
+  /^\/api\/documents$/,
+  /^\/api\/star-chart(\/[^/]+)?$/,
+];
+
+// Cache a response only if it's the page itself and not, say, the login page
+// we were redirected to after the session expired
+async function putIfOk(cacheName, request, response) {
+  if (response.status !== 200 || response.redirected) return;
+  const cache = await caches.open(cacheName);
+  await cache.put(request, response);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    Promise.all(
+      SHELL_URLS.map(async (url) => {
+        try {
+          await putIfOk(PAGES_CACHE, url, await fetch(url));
+        } catch (error) {
+          // Offline or signed out; the shell will be cached on first visit
+        }
+      })
+    ).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== STATIC_CACHE && key !== PAGES_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page posts { type: "precache", urls } with every module in the
+// current Remix build. Older builds' files are dropped from the cache.
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "precache") return;
+
+  const urls = event.data.urls.map(
+    (url) => new URL(url, self.location.origin).href
+  );
+
+  event.waitUntil(
+    caches.open(STATIC_CACHE).then(async (cache) => {
+      const cached = await cache.keys();
+      await Promise.all(
+        cached
+          .filter(
+            (request) =>
+              new URL(request.url).pathname.startsWith("/build/") &&
+              !urls.includes(request.url)
+          )
+          .map((request) => cache.delete(request))
+      );
+
+      const cachedUrls = new Set(cached.map((request) => request.url));
+      await Promise.all(
+        urls
+          .filter((url) => !cachedUrls.has(url))
+          .map(async (url) => {
+            try {
+              await putIfOk(STATIC_CACHE, url, await fetch(url));
+            } catch (error) {
+              // Try again after the next page load
+            }
+          })
+      );
+    })
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  await putIfOk(STATIC_CACHE, request, response.clone());
+  return response;
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    await putIfOk(PAGES_CACHE, request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+
+    // A page we've never seen: the home screen is better than an error
+    if (request.mode === "navigate") {
+      const home = await caches.match("/");
+      if (home) return home;
+    }
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (url.origin !== self.location.origin) return;
+
+  // Signing out: forget this person's pages and lists
+  if (request.method === "POST" && url.pathname === "/logout") {
+    event.waitUntil(caches.delete(PAGES_CACHE));
+    return;
+  }
+
+  if (request.method !== "GET" || url.pathname.startsWith("/parties/")) {
+    return;
+  }
+
+  if (url.pathname.startsWith("/build/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (
+    url.pathname.startsWith("/styles/") ||
+    url.pathname.startsWith("/icons/") ||
+    url.pathname === "/favicon.ico" ||
+    url.pathname === "/manifest.webmanifest"
+  ) {
+    // Not content-hashed, so check the network first for changes
+    event.respondWith(
+      fetch(request)
+        .then(async (response) => {
+          await putIfOk(STATIC_CACHE, request, response.clone());
+          return response;
+        })
+        .catch(
+          async (error) =>
+            (await caches.match(request)) ?? Promise.reject(error)
+        )
+    );
+    return;
+  }
+
+  if (
+    request.mode === "navigate" ||
+    url.searchParams.has("_data") ||
+    CACHED_API_PATHS.some((pattern) => pattern.test(url.pathname))
+  ) {
+    event.respondWith(networkFirst(request));
+  }
+});